@@ -0,0 +1,8 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Initialize the Admin SDK once for every function in this codebase
+const app = initializeApp();
+
+export const db = getFirestore(app);
+export default app;
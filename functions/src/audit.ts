@@ -0,0 +1,124 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { db } from './admin';
+import { assertRole, type UserRole } from './auth';
+
+const AUDIT_LOG_COLLECTION = 'auditLog';
+
+/** Mirrors AuditAction in src/services/auditService.ts */
+export type AuditAction =
+  | 'packages.bulk-delete'
+  | 'packages.restore'
+  | 'packages.purge'
+  | 'packages.archive'
+  | 'packages.backfill'
+  | 'duplicates.confirm'
+  | 'duplicates.dismiss'
+  | 'device.rename'
+  | 'device.migrate'
+  | 'carrier.create'
+  | 'carrier.map'
+  | 'user.invite'
+  | 'user.role-change'
+  | 'user.disable'
+  | 'user.enable'
+  | 'stats.rebuild'
+  | 'settings.update';
+
+export interface AuditActor {
+  uid: string;
+  email: string | null;
+}
+
+export interface AuditTarget {
+  type: 'packages' | 'device' | 'carrier' | 'user' | 'stats' | 'settings';
+  id: string;
+  label?: string;
+}
+
+const TARGET_TYPES: AuditTarget['type'][] = ['packages', 'device', 'carrier', 'user', 'stats', 'settings'];
+
+/**
+ * Actions the dashboard records for changes it makes itself, with the role
+ * each needs; it's the same role firestore.rules requires for the change.
+ * Everything else is only ever recorded by the functions that perform it.
+ */
+const CLIENT_AUDIT_ACTIONS: Partial<Record<AuditAction, UserRole>> = {
+  'packages.bulk-delete': 'admin',
+  'packages.restore': 'admin',
+  'packages.purge': 'admin',
+  'duplicates.confirm': 'supervisor',
+  'duplicates.dismiss': 'supervisor',
+  'device.rename': 'admin',
+  'device.migrate': 'admin',
+  'carrier.create': 'admin',
+  'carrier.map': 'admin',
+  'settings.update': 'admin',
+};
+
+// Largest details object accepted from the dashboard, in bytes of JSON
+const MAX_CLIENT_DETAILS_SIZE = 10_000;
+
+/**
+ * Append an entry to the audit log. Failures are logged, not thrown, so an
+ * audit hiccup never undoes the action that was already performed.
+ */
+export async function recordAudit(
+  action: AuditAction,
+  actor: AuditActor,
+  target: AuditTarget,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await db.collection(AUDIT_LOG_COLLECTION).add({
+      action,
+      actorUid: actor.uid,
+      actorEmail: actor.email,
+      targetType: target.type,
+      targetId: target.id,
+      targetLabel: target.label ?? null,
+      details,
+      at: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    logger.error('Error recording audit entry', { action, target, error });
+  }
+}
+
+/**
+ * Record an action the dashboard performed itself. Clients can't write the
+ * audit log directly; the actor and time come from the verified request, and
+ * the action must be one the caller's role is allowed to perform.
+ */
+export const recordAuditEntry = onCall(async (request): Promise<void> => {
+  const { action, target, details } = request.data ?? {};
+  const required = CLIENT_AUDIT_ACTIONS[action as AuditAction];
+  if (!required) {
+    throw new HttpsError('invalid-argument', 'Unknown audit action');
+  }
+  const uid = await assertRole(request, required);
+
+  if (
+    !target ||
+    !TARGET_TYPES.includes(target.type) ||
+    typeof target.id !== 'string' ||
+    !target.id ||
+    (target.label !== undefined && typeof target.label !== 'string')
+  ) {
+    throw new HttpsError('invalid-argument', 'A valid audit target is required');
+  }
+  if (details !== undefined && (typeof details !== 'object' || details === null || Array.isArray(details))) {
+    throw new HttpsError('invalid-argument', 'Audit details must be an object');
+  }
+  if (JSON.stringify(details ?? {}).length > MAX_CLIENT_DETAILS_SIZE) {
+    throw new HttpsError('invalid-argument', 'Audit details are too large');
+  }
+
+  await recordAudit(
+    action as AuditAction,
+    { uid, email: request.auth?.token.email ?? null },
+    { type: target.type, id: target.id, label: target.label },
+    details ?? {}
+  );
+});
@@ -0,0 +1,42 @@
+import { HttpsError, type CallableRequest } from 'firebase-functions/v2/https';
+import { db } from './admin';
+
+export type UserRole = 'admin' | 'supervisor' | 'scanner' | 'viewer';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  admin: 3,
+  supervisor: 2,
+  // Viewer access plus recording scans, which firestore.rules allows
+  scanner: 1,
+  viewer: 1,
+};
+
+/**
+ * Look up the caller's role in users/{uid}, mirroring firestore.rules.
+ * Accounts without a users document are viewers; disabled accounts have no role.
+ */
+export async function getUserRole(uid: string): Promise<UserRole | null> {
+  const snapshot = await db.collection('users').doc(uid).get();
+  if (snapshot.get('disabled') === true) return null;
+  const role = snapshot.get('role');
+  return typeof role === 'string' && role in ROLE_RANK ? (role as UserRole) : 'viewer';
+}
+
+/**
+ * Reject a callable request unless the caller is signed in with at least the given role
+ * @returns The caller's user ID
+ */
+export async function assertRole(request: CallableRequest, required: UserRole): Promise<string> {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in');
+  }
+
+  const role = await getUserRole(request.auth.uid);
+  if (!role) {
+    throw new HttpsError('permission-denied', 'This account has been disabled');
+  }
+  if (ROLE_RANK[role] < ROLE_RANK[required]) {
+    throw new HttpsError('permission-denied', `This action requires the ${required} role`);
+  }
+  return request.auth.uid;
+}
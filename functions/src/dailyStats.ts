@@ -0,0 +1,311 @@
+import { logger } from 'firebase-functions';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import {
+  FieldPath,
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+  type Transaction,
+} from 'firebase-admin/firestore';
+import { db } from './admin';
+import { recordAudit } from './audit';
+import { assertRole } from './auth';
+import { getRetentionSettings } from './retention';
+import { getTrackingCheck } from './trackingNumbers';
+
+const PACKAGES_COLLECTION = 'packages';
+const DAILY_STATS_COLLECTION = 'dailyStats';
+
+// Events already applied to the rollups. Firestore triggers are delivered at
+// least once, so a retried event must not be counted twice. A TTL policy on
+// expireAt (see firestore.indexes.json) clears old markers.
+const PROCESSED_EVENTS_COLLECTION = 'processedEvents';
+const PROCESSED_EVENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Keys used when a scan carries no carrier or device information
+const UNKNOWN_CARRIER = 'Unknown Carrier';
+const UNKNOWN_DEVICE = 'unknown';
+const UNKNOWN_OPERATOR = 'unknown';
+
+// Number of packages read per page while rebuilding the rollups
+const REBUILD_PAGE_SIZE = 1000;
+
+/**
+ * One rollup document per day, stored at dailyStats/{yyyyMMdd}.
+ * Carrier keys are the raw carrier names as scanned; the dashboard
+ * normalizes them when reading so alias changes never require a rebuild.
+ */
+interface DailyStats {
+  dateYmd: string;
+  total: number;
+  carriers: Record<string, number>;
+  devices: Record<string, number>;
+  // Keyed by the username of the operator who scanned
+  operators: Record<string, number>;
+  // Scans per raw carrier name and tracking number check (see getTrackingCheck in
+  // trackingNumbers.ts); the dashboard derives the invalid and carrier mismatch
+  // counts from them with its carrier mappings
+  trackingChecks: Record<string, Record<string, number>>;
+  // Scans flagged as duplicates (and not dismissed), already included in the counts
+  // above and broken down the same way, so the dashboard can leave them out of any of them
+  duplicates: number;
+  duplicateCarriers: Record<string, number>;
+  duplicateDevices: Record<string, number>;
+  duplicateOperators: Record<string, number>;
+  duplicateTrackingChecks: Record<string, Record<string, number>>;
+  lastScanAt?: string;
+}
+
+/** The parts of a package document that contribute to a rollup */
+interface ScanKey {
+  dateYmd: string;
+  carrier: string;
+  deviceId: string;
+  operator: string;
+  duplicate: boolean;
+  trackingCheck: string | null;
+  timestamp?: string;
+}
+
+/**
+ * Extract the raw carrier name from a package. The scanner writes it as a
+ * plain string, a quoted string, a JSON string or an object with a name.
+ */
+export function getRawCarrierName(carrier: unknown): string {
+  if (typeof carrier === 'string') {
+    const trimmed = carrier.trim();
+    if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (parsed && typeof parsed === 'object' && 'name' in parsed && parsed.name) {
+          return String(parsed.name);
+        }
+      } catch {
+        // Not JSON after all, fall through to the plain string handling
+      }
+    }
+    return trimmed.replace(/^["'](.+)["']$/, '$1') || UNKNOWN_CARRIER;
+  }
+
+  if (carrier && typeof carrier === 'object' && 'name' in carrier) {
+    const name = (carrier as { name?: unknown }).name;
+    return name ? String(name) : UNKNOWN_CARRIER;
+  }
+
+  return UNKNOWN_CARRIER;
+}
+
+/**
+ * Build the rollup key for a package, or null when it has no usable date
+ */
+function toScanKey(data: DocumentData | undefined): ScanKey | null {
+  if (!data || typeof data.dateYmd !== 'string' || !/^\d{8}$/.test(data.dateYmd)) {
+    return null;
+  }
+
+  return {
+    dateYmd: data.dateYmd,
+    carrier: getRawCarrierName(data.carrier),
+    deviceId: data.deviceId ? String(data.deviceId) : UNKNOWN_DEVICE,
+    operator: data.username ? String(data.username) : UNKNOWN_OPERATOR,
+    duplicate: typeof data.duplicateOf === 'string' && data.duplicateStatus !== 'dismissed',
+    trackingCheck: getTrackingCheck(data.tracking),
+    timestamp: typeof data.timestamp === 'string' ? data.timestamp : undefined,
+  };
+}
+
+function isSameKey(a: ScanKey | null, b: ScanKey | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.dateYmd === b.dateYmd &&
+    a.carrier === b.carrier &&
+    a.deviceId === b.deviceId &&
+    a.operator === b.operator &&
+    a.duplicate === b.duplicate &&
+    a.trackingCheck === b.trackingCheck
+  );
+}
+
+/**
+ * Add (delta = 1) or remove (delta = -1) one scan from its day's rollup
+ * @param lastScanAt - The day's current lastScanAt, which only moves forward
+ */
+function applyDelta(transaction: Transaction, key: ScanKey, delta: number, lastScanAt?: string): void {
+  const ref = db.collection(DAILY_STATS_COLLECTION).doc(key.dateYmd);
+  const isLatest = !!key.timestamp && (!lastScanAt || key.timestamp > lastScanAt);
+  transaction.set(
+    ref,
+    {
+      dateYmd: key.dateYmd,
+      total: FieldValue.increment(delta),
+      carriers: { [key.carrier]: FieldValue.increment(delta) },
+      devices: { [key.deviceId]: FieldValue.increment(delta) },
+      operators: { [key.operator]: FieldValue.increment(delta) },
+      ...(key.trackingCheck
+        ? { trackingChecks: { [key.carrier]: { [key.trackingCheck]: FieldValue.increment(delta) } } }
+        : {}),
+      ...(key.duplicate
+        ? {
+            duplicates: FieldValue.increment(delta),
+            duplicateCarriers: { [key.carrier]: FieldValue.increment(delta) },
+            duplicateDevices: { [key.deviceId]: FieldValue.increment(delta) },
+            duplicateOperators: { [key.operator]: FieldValue.increment(delta) },
+            ...(key.trackingCheck
+              ? { duplicateTrackingChecks: { [key.carrier]: { [key.trackingCheck]: FieldValue.increment(delta) } } }
+              : {}),
+          }
+        : {}),
+      ...(delta > 0 && isLatest ? { lastScanAt: key.timestamp } : {}),
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Keep the daily rollups current whenever a package is created, updated or deleted
+ */
+export const onPackageWritten = onDocumentWritten(`${PACKAGES_COLLECTION}/{packageId}`, async (event) => {
+  const before = toScanKey(event.data?.before.data());
+  const after = toScanKey(event.data?.after.data());
+
+  // Edits that don't touch the date, carrier, device, operator, duplicate flag or tracking number check leave the counts alone
+  if (isSameKey(before, after)) return;
+
+  // Archived packages still count towards their day's statistics
+  if (before && !after) {
+    const { archivedBeforeYmd } = await getRetentionSettings();
+    if (archivedBeforeYmd && before.dateYmd < archivedBeforeYmd) return;
+  }
+
+  const markerRef = db.collection(PROCESSED_EVENTS_COLLECTION).doc(`dailyStats-${event.id}`);
+  await db.runTransaction(async (transaction) => {
+    const marker = await transaction.get(markerRef);
+    if (marker.exists) {
+      logger.info(`Event ${event.id} was already applied to the daily rollups`);
+      return;
+    }
+
+    const afterStats = after
+      ? await transaction.get(db.collection(DAILY_STATS_COLLECTION).doc(after.dateYmd))
+      : null;
+
+    if (before) applyDelta(transaction, before, -1);
+    if (after) applyDelta(transaction, after, 1, afterStats?.get('lastScanAt'));
+    transaction.set(markerRef, {
+      processedAt: FieldValue.serverTimestamp(),
+      expireAt: Timestamp.fromMillis(Date.now() + PROCESSED_EVENT_TTL_MS),
+    });
+  });
+});
+
+function addToStats(days: Map<string, DailyStats>, key: ScanKey): void {
+  let stats = days.get(key.dateYmd);
+  if (!stats) {
+    stats = {
+      dateYmd: key.dateYmd,
+      total: 0,
+      carriers: {},
+      devices: {},
+      operators: {},
+      trackingChecks: {},
+      duplicates: 0,
+      duplicateCarriers: {},
+      duplicateDevices: {},
+      duplicateOperators: {},
+      duplicateTrackingChecks: {},
+    };
+    days.set(key.dateYmd, stats);
+  }
+
+  stats.total++;
+  stats.carriers[key.carrier] = (stats.carriers[key.carrier] || 0) + 1;
+  stats.devices[key.deviceId] = (stats.devices[key.deviceId] || 0) + 1;
+  stats.operators[key.operator] = (stats.operators[key.operator] || 0) + 1;
+  if (key.trackingCheck) {
+    const checks = (stats.trackingChecks[key.carrier] ??= {});
+    checks[key.trackingCheck] = (checks[key.trackingCheck] || 0) + 1;
+  }
+  if (key.duplicate) {
+    stats.duplicates++;
+    stats.duplicateCarriers[key.carrier] = (stats.duplicateCarriers[key.carrier] || 0) + 1;
+    stats.duplicateDevices[key.deviceId] = (stats.duplicateDevices[key.deviceId] || 0) + 1;
+    stats.duplicateOperators[key.operator] = (stats.duplicateOperators[key.operator] || 0) + 1;
+    if (key.trackingCheck) {
+      const checks = (stats.duplicateTrackingChecks[key.carrier] ??= {});
+      checks[key.trackingCheck] = (checks[key.trackingCheck] || 0) + 1;
+    }
+  }
+  if (key.timestamp && (!stats.lastScanAt || key.timestamp > stats.lastScanAt)) {
+    stats.lastScanAt = key.timestamp;
+  }
+}
+
+/**
+ * Rebuild every daily rollup from the packages collection.
+ * Packages are read a page at a time so memory only grows with the number of days.
+ * Scans written while the rebuild runs may need a second rebuild to be counted.
+ * Rollups for archived days are left untouched, since their packages are gone.
+ */
+export async function rebuildAllDailyStats(): Promise<{ packages: number; days: number }> {
+  const { archivedBeforeYmd } = await getRetentionSettings();
+  const isArchived = (dateYmd: string) => !!archivedBeforeYmd && dateYmd < archivedBeforeYmd;
+  const days = new Map<string, DailyStats>();
+  let cursor: QueryDocumentSnapshot | undefined;
+  let packageCount = 0;
+
+  for (;;) {
+    let pageQuery = db
+      .collection(PACKAGES_COLLECTION)
+      .orderBy(FieldPath.documentId())
+      .limit(REBUILD_PAGE_SIZE);
+    if (cursor) pageQuery = pageQuery.startAfter(cursor);
+
+    const snapshot = await pageQuery.get();
+    if (snapshot.empty) break;
+
+    snapshot.docs.forEach((doc) => {
+      packageCount++;
+      const key = toScanKey(doc.data());
+      if (key && !isArchived(key.dateYmd)) addToStats(days, key);
+    });
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  const writer = db.bulkWriter();
+  const statsCollection = db.collection(DAILY_STATS_COLLECTION);
+
+  // Drop rollups for days that no longer have any packages
+  const existing = await statsCollection.select().get();
+  existing.docs.forEach((doc) => {
+    if (!days.has(doc.id) && !isArchived(doc.id)) writer.delete(doc.ref);
+  });
+
+  days.forEach((stats, dateYmd) => {
+    writer.set(statsCollection.doc(dateYmd), {
+      ...stats,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+  await writer.close();
+
+  logger.info(`Rebuilt ${days.size} daily rollups from ${packageCount} packages`);
+  return { packages: packageCount, days: days.size };
+}
+
+/**
+ * Callable wrapper so the backfill can be started from the Admin page
+ */
+export const rebuildDailyStats = onCall({ timeoutSeconds: 540, memory: '1GiB' }, async (request) => {
+  const uid = await assertRole(request, 'admin');
+  const result = await rebuildAllDailyStats();
+  await recordAudit(
+    'stats.rebuild',
+    { uid, email: request.auth?.token.email ?? null },
+    { type: 'stats', id: 'dailyStats' },
+    { ...result }
+  );
+  return result;
+});
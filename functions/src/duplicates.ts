@@ -0,0 +1,110 @@
+import { logger } from 'firebase-functions';
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { FieldValue, type DocumentData } from 'firebase-admin/firestore';
+import { db } from './admin';
+
+const PACKAGES_COLLECTION = 'packages';
+const DUPLICATE_GROUPS_COLLECTION = 'duplicateGroups';
+const DUPLICATE_SETTINGS_PATH = 'settings/duplicates';
+
+/**
+ * Stored at settings/duplicates and edited from the duplicates review page.
+ * Mirrors DuplicateSettings in src/services/duplicateService.ts.
+ */
+export interface DuplicateSettings {
+  enabled: boolean;
+  windowMinutes: number;
+  // same-device: only repeat scans from the same scanner count as duplicates
+  scope: 'same-device' | 'any-device';
+  excludeFromKpis: boolean;
+}
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  enabled: true,
+  windowMinutes: 60,
+  scope: 'same-device',
+  excludeFromKpis: false,
+};
+
+export async function getDuplicateSettings(): Promise<DuplicateSettings> {
+  const data = (await db.doc(DUPLICATE_SETTINGS_PATH).get()).data() ?? {};
+  return {
+    enabled: typeof data.enabled === 'boolean' ? data.enabled : DEFAULT_DUPLICATE_SETTINGS.enabled,
+    windowMinutes:
+      typeof data.windowMinutes === 'number' && data.windowMinutes > 0
+        ? data.windowMinutes
+        : DEFAULT_DUPLICATE_SETTINGS.windowMinutes,
+    scope: data.scope === 'any-device' ? 'any-device' : 'same-device',
+    excludeFromKpis: data.excludeFromKpis === true,
+  };
+}
+
+/** Tracking numbers can contain characters that are not allowed in document IDs */
+export function toDuplicateGroupId(tracking: string): string {
+  return encodeURIComponent(tracking).replace(/\./g, '%2E');
+}
+
+function toMillis(data: DocumentData): number | null {
+  if (typeof data.timestamp !== 'string') return null;
+  const millis = Date.parse(data.timestamp);
+  return isNaN(millis) ? null : millis;
+}
+
+/**
+ * Flag a new scan as a duplicate when the same tracking number was already scanned
+ * within the configured window. The first scan stays unflagged as the original;
+ * every later one points at it through duplicateOf and joins the tracking number's
+ * duplicate group for review.
+ */
+export const onPackageCreated = onDocumentCreated(`${PACKAGES_COLLECTION}/{packageId}`, async (event) => {
+  const snapshot = event.data;
+  const data = snapshot?.data();
+  if (!snapshot || !data || typeof data.tracking !== 'string' || !data.tracking) return;
+
+  const settings = await getDuplicateSettings();
+  if (!settings.enabled) return;
+
+  const scannedAt = toMillis(data);
+  if (scannedAt === null) return;
+  const windowMillis = settings.windowMinutes * 60 * 1000;
+
+  const sameTracking = await db.collection(PACKAGES_COLLECTION).where('tracking', '==', data.tracking).get();
+  const earlier = sameTracking.docs
+    .filter((doc) => {
+      if (doc.id === snapshot.id) return false;
+      const other = doc.data();
+      const otherAt = toMillis(other);
+      if (otherAt === null || otherAt > scannedAt || scannedAt - otherAt > windowMillis) return false;
+      return settings.scope === 'any-device' || other.deviceId === data.deviceId;
+    })
+    .sort((a, b) => (toMillis(a.data()) ?? 0) - (toMillis(b.data()) ?? 0));
+
+  if (earlier.length === 0) return;
+
+  // Chains of repeat scans all point at the first scan
+  const first = earlier[0];
+  const originalId: string = first.get('duplicateOf') || first.id;
+  const groupId = toDuplicateGroupId(data.tracking);
+
+  const batch = db.batch();
+  batch.update(snapshot.ref, {
+    duplicateOf: originalId,
+    duplicateStatus: 'pending',
+    duplicateGroupId: groupId,
+  });
+  batch.set(
+    db.collection(DUPLICATE_GROUPS_COLLECTION).doc(groupId),
+    {
+      tracking: data.tracking,
+      originalId,
+      packageIds: FieldValue.arrayUnion(originalId, snapshot.id),
+      deviceIds: FieldValue.arrayUnion(data.deviceId ?? 'unknown', first.get('deviceId') ?? 'unknown'),
+      status: 'pending',
+      lastDetectedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  await batch.commit();
+
+  logger.info(`Scan ${snapshot.id} of ${data.tracking} flagged as a duplicate of ${originalId}`);
+});
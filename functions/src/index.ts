@@ -0,0 +1,7 @@
+export { recordAuditEntry } from './audit';
+export { onPackageWritten, rebuildDailyStats } from './dailyStats';
+export { inviteUser, listUsers, setUserDisabled, setUserRole } from './users';
+export { purgePackageTrash } from './trash';
+export { archivePackages, runArchival } from './retention';
+export { onPackageCreated } from './duplicates';
+export { backfillSearchFields, onPackageSearchFields } from './searchFields';
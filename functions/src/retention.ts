@@ -0,0 +1,217 @@
+import { logger } from 'firebase-functions';
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { recordAudit, type AuditActor } from './audit';
+import { assertRole } from './auth';
+
+const PACKAGES_COLLECTION = 'packages';
+const ARCHIVES_COLLECTION = 'packageArchives';
+const CHUNKS_COLLECTION = 'chunks';
+export const RETENTION_SETTINGS_PATH = 'settings/retention';
+
+// Packages moved per batch. Each batch also writes the chunks and one summary per month
+// it touches, which has to stay under Firestore's 500 writes per batch.
+const ARCHIVE_PAGE_SIZE = 400;
+
+// Most package data stored in one chunk document. Firestore allows 1 MiB per
+// document; the size is estimated from JSON, so leave plenty of room.
+export const MAX_CHUNK_BYTES = 512 * 1024;
+
+// Fields the onPackageSearchFields function derives from the rest of a package.
+// They are left out of the archive, and trackingGrams alone can be several KiB.
+const DERIVED_FIELDS = ['carrierName', 'scanHour', 'trackingReversed', 'trackingGrams'];
+
+// Zone the scanner writes dateYmd in, when the policy doesn't name one
+const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Stored at settings/retention. The dashboard edits enabled and archiveAfterMonths;
+ * the rest is written by the archival job.
+ */
+export interface RetentionSettings {
+  enabled: boolean;
+  archiveAfterMonths: number;
+  /** IANA time zone the scanner writes dateYmd in; months are counted in it */
+  timeZone: string;
+  /**
+   * Every package scanned before this day (yyyyMMdd) has been archived. Rollups for
+   * those days are kept as they are: deleting the archived packages does not
+   * decrement them and rebuilding does not touch them.
+   */
+  archivedBeforeYmd?: string;
+}
+
+export interface ArchiveRunResult {
+  cutoffYmd: string;
+  archived: number;
+  months: Record<string, number>;
+}
+
+export async function getRetentionSettings(): Promise<RetentionSettings> {
+  const data = (await db.doc(RETENTION_SETTINGS_PATH).get()).data() ?? {};
+  return {
+    enabled: data.enabled === true,
+    archiveAfterMonths:
+      typeof data.archiveAfterMonths === 'number' && data.archiveAfterMonths > 0 ? data.archiveAfterMonths : 13,
+    timeZone: typeof data.timeZone === 'string' && isValidTimeZone(data.timeZone) ? data.timeZone : DEFAULT_TIME_ZONE,
+    archivedBeforeYmd: typeof data.archivedBeforeYmd === 'string' ? data.archivedBeforeYmd : undefined,
+  };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First day of the month that is `months` before `now`, as yyyyMMdd.
+ * Packages scanned before it are archived, so whole months are archived at once.
+ * @param timeZone - Zone dateYmd is written in, so "this month" matches the scanner's calendar
+ */
+export function getArchiveCutoffYmd(now: Date, months: number, timeZone = DEFAULT_TIME_ZONE): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric' }).formatToParts(now);
+  const year = Number(parts.find((part) => part.type === 'year')?.value);
+  const month = Number(parts.find((part) => part.type === 'month')?.value);
+  const cutoff = new Date(Date.UTC(year, month - 1 - months, 1));
+  return `${cutoff.getUTCFullYear()}${String(cutoff.getUTCMonth() + 1).padStart(2, '0')}01`;
+}
+
+/** A package as archived: its ID and stored fields, without the derived search fields */
+function toArchivedPackage(doc: QueryDocumentSnapshot): Record<string, unknown> {
+  const data: Record<string, unknown> = { id: doc.id, ...doc.data() };
+  DERIVED_FIELDS.forEach((field) => delete data[field]);
+  return data;
+}
+
+/**
+ * Split a month's packages into chunks of at most MAX_CHUNK_BYTES each
+ */
+function toChunks(packages: Record<string, unknown>[]): Record<string, unknown>[][] {
+  const chunks: Record<string, unknown>[][] = [];
+  let current: Record<string, unknown>[] = [];
+  let currentBytes = 0;
+  packages.forEach((pkg) => {
+    const bytes = Buffer.byteLength(JSON.stringify(pkg));
+    if (current.length && currentBytes + bytes > MAX_CHUNK_BYTES) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(pkg);
+    currentBytes += bytes;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Move packages older than the retention period into packageArchives/{yyyyMM}.
+ * Each month gets a summary document and a chunks subcollection holding the package
+ * data; chunks are written in the same batch that deletes their packages, so an
+ * interrupted run can simply be run again.
+ *
+ * Covered by test/retention.test.js, which runs against the Firestore emulator (`npm test`).
+ *
+ * @param now - Reference time for the retention period
+ * @param force - Archive even when the policy is disabled
+ */
+export async function archiveExpiredPackages(now = new Date(), force = false): Promise<ArchiveRunResult | null> {
+  const settings = await getRetentionSettings();
+  if (!settings.enabled && !force) {
+    logger.info('Retention policy is disabled, nothing archived');
+    return null;
+  }
+
+  const cutoffYmd = getArchiveCutoffYmd(now, settings.archiveAfterMonths, settings.timeZone);
+  const result: ArchiveRunResult = { cutoffYmd, archived: 0, months: {} };
+
+  // Mark the days first so the rollup trigger ignores the deletions below
+  if (!settings.archivedBeforeYmd || settings.archivedBeforeYmd < cutoffYmd) {
+    await db.doc(RETENTION_SETTINGS_PATH).set({ archivedBeforeYmd: cutoffYmd }, { merge: true });
+  }
+
+  const expiredQuery = db
+    .collection(PACKAGES_COLLECTION)
+    .where('dateYmd', '<', cutoffYmd)
+    .orderBy('dateYmd')
+    .limit(ARCHIVE_PAGE_SIZE);
+
+  for (;;) {
+    const snapshot = await expiredQuery.get();
+    if (snapshot.empty) break;
+
+    const byMonth = new Map<string, QueryDocumentSnapshot[]>();
+    snapshot.docs.forEach((doc) => {
+      const month = String(doc.get('dateYmd')).slice(0, 6);
+      byMonth.set(month, [...(byMonth.get(month) ?? []), doc]);
+    });
+
+    const batch = db.batch();
+    byMonth.forEach((docs, month) => {
+      const archiveRef = db.collection(ARCHIVES_COLLECTION).doc(month);
+      const chunks = toChunks(docs.map(toArchivedPackage));
+      chunks.forEach((packages) => {
+        batch.set(archiveRef.collection(CHUNKS_COLLECTION).doc(), {
+          packages,
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      });
+      batch.set(
+        archiveRef,
+        {
+          month,
+          count: FieldValue.increment(docs.length),
+          chunkCount: FieldValue.increment(chunks.length),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+      docs.forEach((doc) => batch.delete(doc.ref));
+      result.months[month] = (result.months[month] ?? 0) + docs.length;
+    });
+    await batch.commit();
+    result.archived += snapshot.size;
+  }
+
+  await db.doc(RETENTION_SETTINGS_PATH).set(
+    {
+      lastRunAt: FieldValue.serverTimestamp(),
+      lastRunResult: result,
+    },
+    { merge: true }
+  );
+
+  logger.info(`Archived ${result.archived} packages scanned before ${cutoffYmd}`, result.months);
+  return result;
+}
+
+async function recordArchiveRun(actor: AuditActor, result: ArchiveRunResult | null): Promise<void> {
+  if (!result || result.archived === 0) return;
+  await recordAudit(
+    'packages.archive',
+    actor,
+    { type: 'packages', id: ARCHIVES_COLLECTION, label: `Before ${result.cutoffYmd}` },
+    { ...result }
+  );
+}
+
+export const archivePackages = onSchedule({ schedule: 'every day 02:00', timeoutSeconds: 540 }, async () => {
+  const result = await archiveExpiredPackages();
+  await recordArchiveRun({ uid: 'system', email: null }, result);
+});
+
+/**
+ * Callable so admins can apply the policy right away from the Admin page
+ */
+export const runArchival = onCall({ timeoutSeconds: 540 }, async (request): Promise<ArchiveRunResult | null> => {
+  const uid = await assertRole(request, 'admin');
+  const result = await archiveExpiredPackages(new Date(), true);
+  await recordArchiveRun({ uid, email: request.auth?.token.email ?? null }, result);
+  return result;
+});
@@ -0,0 +1,139 @@
+import { logger } from 'firebase-functions';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { FieldPath, type DocumentData, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { recordAudit } from './audit';
+import { assertRole } from './auth';
+import { getRawCarrierName } from './dailyStats';
+import { normalizeTrackingNumber } from './trackingNumbers';
+
+const PACKAGES_COLLECTION = 'packages';
+
+// Number of packages read and updated per batch during the backfill
+const BACKFILL_PAGE_SIZE = 400;
+
+// Lengths of the tracking number pieces indexed for "contains" searches.
+// Keep in sync with src/services/packageService.ts.
+const TRACKING_GRAM_MIN = 4;
+const TRACKING_GRAM_MAX = 10;
+
+/**
+ * Fields derived from a package so the dashboard can filter on them.
+ * The scanner doesn't write them; they are kept current on every write.
+ */
+interface SearchFields {
+  // Raw carrier name however the scanner wrote it (plain, quoted, JSON or an
+  // object), the same key the daily rollups count it under
+  carrierName: string;
+  // Hour of day (0-23) of the scan, as written in its timestamp
+  scanHour: number | null;
+  // Normalized tracking number reversed, so "ends with" becomes a prefix search
+  trackingReversed: string | null;
+  // Every piece of the normalized tracking number TRACKING_GRAM_MIN to
+  // TRACKING_GRAM_MAX characters long, so "contains" is an array-contains search
+  trackingGrams: string[];
+}
+
+/**
+ * Every distinct substring of a tracking number with an indexed length
+ */
+function getTrackingGrams(tracking: string): string[] {
+  const grams = new Set<string>();
+  for (let length = TRACKING_GRAM_MIN; length <= Math.min(TRACKING_GRAM_MAX, tracking.length); length++) {
+    for (let start = 0; start + length <= tracking.length; start++) {
+      grams.add(tracking.slice(start, start + length));
+    }
+  }
+  return Array.from(grams);
+}
+
+/**
+ * Compute the search fields of a package
+ */
+export function getSearchFields(data: DocumentData): SearchFields {
+  // Read the hour from the text so it stays in the scanner's own time zone
+  const hourMatch = typeof data.timestamp === 'string' ? data.timestamp.match(/[T ](\d{2}):\d{2}/) : null;
+  const hour = hourMatch ? Number(hourMatch[1]) : NaN;
+
+  const tracking = normalizeTrackingNumber(data.tracking);
+
+  return {
+    carrierName: getRawCarrierName(data.carrier),
+    scanHour: hour >= 0 && hour <= 23 ? hour : null,
+    trackingReversed: tracking ? tracking.split('').reverse().join('') : null,
+    trackingGrams: getTrackingGrams(tracking),
+  };
+}
+
+/**
+ * The search fields of a package that are missing or out of date, or null when all are current
+ */
+function getStaleSearchFields(data: DocumentData): Partial<SearchFields> | null {
+  const fields = getSearchFields(data);
+  const stale = Object.fromEntries(
+    Object.entries(fields).filter(([field, value]) => JSON.stringify(data[field] ?? null) !== JSON.stringify(value))
+  );
+  return Object.keys(stale).length ? stale : null;
+}
+
+/**
+ * Keep the search fields current whenever a package is created or updated.
+ * Writing them triggers this function again, which then finds nothing to change.
+ */
+export const onPackageSearchFields = onDocumentWritten(`${PACKAGES_COLLECTION}/{packageId}`, async (event) => {
+  const after = event.data?.after;
+  if (!after?.exists) return;
+
+  const stale = getStaleSearchFields(after.data() ?? {});
+  if (stale) await after.ref.update(stale);
+});
+
+/**
+ * Fill in the search fields of every existing package
+ */
+export async function backfillAllSearchFields(): Promise<{ packages: number; updated: number }> {
+  let cursor: QueryDocumentSnapshot | undefined;
+  let packageCount = 0;
+  let updated = 0;
+
+  for (;;) {
+    let pageQuery = db
+      .collection(PACKAGES_COLLECTION)
+      .orderBy(FieldPath.documentId())
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) pageQuery = pageQuery.startAfter(cursor);
+
+    const snapshot = await pageQuery.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    snapshot.docs.forEach((doc) => {
+      packageCount++;
+      const stale = getStaleSearchFields(doc.data());
+      if (!stale) return;
+      batch.update(doc.ref, stale);
+      updated++;
+    });
+    await batch.commit();
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  logger.info(`Backfilled search fields on ${updated} of ${packageCount} packages`);
+  return { packages: packageCount, updated };
+}
+
+/**
+ * Callable wrapper so the backfill can be started from the Admin page
+ */
+export const backfillSearchFields = onCall({ timeoutSeconds: 540, memory: '1GiB' }, async (request) => {
+  const uid = await assertRole(request, 'admin');
+  const result = await backfillAllSearchFields();
+  await recordAudit(
+    'packages.backfill',
+    { uid, email: request.auth?.token.email ?? null },
+    { type: 'packages', id: PACKAGES_COLLECTION },
+    { ...result }
+  );
+  return result;
+});
@@ -0,0 +1,126 @@
+/**
+ * Tracking number validation for the rollups. Mirrors parseTrackingNumber in
+ * src/config/trackingNumbers.ts, which also documents the formats; keep the
+ * two in sync so the dashboard's badges and the invalid count agree.
+ */
+
+export type TrackingCarrierId = 'ups' | 'fedex' | 'usps' | 'dhl' | 'amazon';
+
+export interface TrackingNumberInfo {
+  normalized: string;
+  carrierId: TrackingCarrierId | null;
+  format: string | null;
+  valid: boolean;
+  ambiguous: boolean;
+}
+
+interface TrackingFormat {
+  carrierId: TrackingCarrierId;
+  name: string;
+  pattern: RegExp;
+  isValid?: (value: string) => boolean;
+  ambiguous?: boolean;
+}
+
+// Check recorded for a number that fails validation regardless of its carrier
+const INVALID_CHECK = 'invalid';
+
+const toDigits = (value: string): number[] => value.split('').map(Number);
+
+function isValidMod10(value: string): boolean {
+  const digits = toDigits(value);
+  const check = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+function isValidUps(value: string): boolean {
+  const chars = value.slice(2).split('');
+  const check = Number(chars.pop());
+  const sum = chars.reduce((total, char, i) => {
+    const digit = /\d/.test(char) ? Number(char) : (char.charCodeAt(0) - 63) % 10;
+    return total + digit * (i % 2 === 0 ? 1 : 2);
+  }, 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+function isValidFedExExpress(value: string): boolean {
+  const digits = toDigits(value);
+  const check = digits.pop();
+  const weights = [1, 3, 7];
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * weights[i % 3], 0);
+  return (sum % 11) % 10 === check;
+}
+
+function isValidS10(value: string): boolean {
+  const digits = toDigits(value.slice(2, 11));
+  const check = digits.pop();
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  const remainder = 11 - (digits.reduce((total, digit, i) => total + digit * weights[i], 0) % 11);
+  const expected = remainder === 10 ? 0 : remainder === 11 ? 5 : remainder;
+  return expected === check;
+}
+
+function isValidDhlExpress(value: string): boolean {
+  return Number(value.slice(0, 9)) % 7 === Number(value[9]);
+}
+
+const TRACKING_FORMATS: TrackingFormat[] = [
+  { carrierId: 'ups', name: 'UPS 1Z', pattern: /^1Z[0-9A-Z]{16}$/, isValid: isValidUps },
+  { carrierId: 'amazon', name: 'Amazon Logistics', pattern: /^TB[ACM]\d{12}$/ },
+  { carrierId: 'usps', name: 'USPS International', pattern: /^[A-Z]{2}\d{9}US$/, isValid: isValidS10 },
+  { carrierId: 'usps', name: 'USPS IMpb', pattern: /^(?:420\d{5}(?:\d{4})?)?(9[1-5]\d{18,20})$/, isValid: isValidMod10 },
+  { carrierId: 'fedex', name: 'FedEx Ground 96', pattern: /^96\d{5}(\d{15})$/, isValid: isValidMod10 },
+  { carrierId: 'fedex', name: 'FedEx Express', pattern: /^\d{12}$/, isValid: isValidFedExExpress },
+  { carrierId: 'fedex', name: 'FedEx Ground', pattern: /^\d{15}$/, isValid: isValidMod10 },
+  { carrierId: 'dhl', name: 'DHL Express', pattern: /^\d{10}$/, isValid: isValidDhlExpress, ambiguous: true },
+  { carrierId: 'dhl', name: 'DHL eCommerce', pattern: /^GM\d{16,18}$/ },
+  { carrierId: 'dhl', name: 'DHL Parcel', pattern: /^JJD\d{16,20}$/ },
+];
+
+/**
+ * Upper-case a tracking number and drop the spaces and dashes some labels print
+ */
+export function normalizeTrackingNumber(tracking: unknown): string {
+  return (typeof tracking === 'string' ? tracking : '').toUpperCase().replace(/[\s-]+/g, '');
+}
+
+/**
+ * Recognize a tracking number's carrier and verify its check digit
+ */
+export function parseTrackingNumber(tracking: unknown): TrackingNumberInfo {
+  const normalized = normalizeTrackingNumber(tracking);
+
+  if (!/^[0-9A-Z]{8,40}$/.test(normalized)) {
+    return { normalized, carrierId: null, format: null, valid: false, ambiguous: false };
+  }
+
+  let failed: TrackingFormat | null = null;
+  for (const format of TRACKING_FORMATS) {
+    const match = normalized.match(format.pattern);
+    if (!match) continue;
+    if (!format.isValid || format.isValid(match[1] ?? normalized)) {
+      return { normalized, carrierId: format.carrierId, format: format.name, valid: true, ambiguous: false };
+    }
+    failed = failed || format;
+  }
+
+  if (failed) {
+    return { normalized, carrierId: failed.carrierId, format: failed.name, valid: false, ambiguous: !!failed.ambiguous };
+  }
+
+  return { normalized, carrierId: null, format: null, valid: true, ambiguous: false };
+}
+
+/**
+ * Summarize a tracking number for the rollups, which count it per raw carrier name
+ * so the dashboard can compare it with the carrier it resolves that name to:
+ * the carrier family of a valid number, "<family>-invalid" for a failed check
+ * that only counts against scans of that family, "invalid" for any other
+ * failure, or null for a number of a format we don't know.
+ */
+export function getTrackingCheck(tracking: unknown): string | null {
+  const info = parseTrackingNumber(tracking);
+  if (info.valid) return info.carrierId;
+  return info.ambiguous ? `${info.carrierId}-${INVALID_CHECK}` : INVALID_CHECK;
+}
@@ -0,0 +1,81 @@
+import { logger } from 'firebase-functions';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { Timestamp, type QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { recordAudit } from './audit';
+
+const PACKAGES_TRASH_COLLECTION = 'packages_trash';
+const RECYCLE_BIN_SETTINGS_PATH = 'settings/recycleBin';
+
+// Mirrors DEFAULT_TRASH_RETENTION_DAYS in src/services/trashService.ts
+const DEFAULT_RETENTION_DAYS = 30;
+
+const PURGE_PAGE_SIZE = 500;
+
+async function getRetentionDays(): Promise<number> {
+  const days = (await db.doc(RECYCLE_BIN_SETTINGS_PATH).get()).get('retentionDays');
+  return typeof days === 'number' && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Permanently delete packages that have been in the recycle bin longer than the retention period
+ * @param now - Reference time, so the emulator tests can control it
+ * @returns Number of packages purged
+ */
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const retentionDays = await getRetentionDays();
+  const cutoff = Timestamp.fromMillis(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+  const expiredQuery = db
+    .collection(PACKAGES_TRASH_COLLECTION)
+    .where('deletedAt', '<', cutoff)
+    .orderBy('deletedAt')
+    .limit(PURGE_PAGE_SIZE);
+
+  const writer = db.bulkWriter();
+  // Deletes that still fail after the writer's own retries are counted, not thrown
+  writer.onWriteError((error) => {
+    logger.warn(`Retrying delete of ${error.documentRef.path}`, { code: error.code, attempts: error.failedAttempts });
+    return error.failedAttempts < 3;
+  });
+
+  let purged = 0;
+  let failed = 0;
+  let cursor: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    // Paged past the last document read, so ones that failed to delete aren't read again
+    const snapshot = await (cursor ? expiredQuery.startAfter(cursor) : expiredQuery).get();
+    if (snapshot.empty) break;
+
+    const deletes = snapshot.docs.map((doc) => writer.delete(doc.ref));
+    await writer.flush();
+    const results = await Promise.allSettled(deletes);
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        purged++;
+      } else {
+        failed++;
+        logger.error(`Could not purge ${snapshot.docs[index].ref.path}`, { error: result.reason });
+      }
+    });
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+  await writer.close();
+
+  if (failed > 0) {
+    logger.error(`${failed} expired packages could not be purged; they will be retried on the next run`);
+  }
+  if (purged > 0) {
+    logger.info(`Purged ${purged} packages deleted before ${cutoff.toDate().toISOString()}`);
+    await recordAudit(
+      'packages.purge',
+      { uid: 'system', email: null },
+      { type: 'packages', id: PACKAGES_TRASH_COLLECTION, label: 'Automatic purge' },
+      { count: purged, failed, retentionDays }
+    );
+  }
+  return purged;
+}
+
+export const purgePackageTrash = onSchedule('every day 03:00', async () => {
+  await purgeExpiredTrash();
+});
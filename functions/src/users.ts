@@ -0,0 +1,180 @@
+import { getAuth, type UserRecord } from 'firebase-admin/auth';
+import { FieldValue } from 'firebase-admin/firestore';
+import { HttpsError, onCall, type CallableRequest } from 'firebase-functions/v2/https';
+import app, { db } from './admin';
+import { recordAudit, type AuditActor, type AuditAction } from './audit';
+import { assertRole, type UserRole } from './auth';
+
+const USERS_COLLECTION = 'users';
+const ROLES: UserRole[] = ['admin', 'supervisor', 'scanner', 'viewer'];
+
+const auth = getAuth(app);
+
+export interface ManagedUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+}
+
+function assertValidRole(role: unknown): UserRole {
+  if (!ROLES.includes(role as UserRole)) {
+    throw new HttpsError('invalid-argument', `Role must be one of ${ROLES.join(', ')}`);
+  }
+  return role as UserRole;
+}
+
+function assertUid(uid: unknown): string {
+  if (typeof uid !== 'string' || !uid) {
+    throw new HttpsError('invalid-argument', 'User ID is required');
+  }
+  return uid;
+}
+
+async function requireAdmin(request: CallableRequest): Promise<AuditActor> {
+  const uid = await assertRole(request, 'admin');
+  return { uid, email: request.auth?.token.email ?? null };
+}
+
+/**
+ * Write a user's profile and record the change in the audit log,
+ * so every change records who made it and when
+ */
+async function updateProfile(
+  uid: string,
+  actor: AuditActor,
+  action: AuditAction,
+  profile: Record<string, unknown>,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  await db.collection(USERS_COLLECTION).doc(uid).set(
+    { ...profile, updatedAt: FieldValue.serverTimestamp(), updatedBy: actor.uid },
+    { merge: true }
+  );
+  await recordAudit(
+    action,
+    actor,
+    { type: 'user', id: uid, label: (profile.email as string | null | undefined) ?? undefined },
+    details
+  );
+}
+
+function toManagedUser(record: UserRecord, role: unknown): ManagedUser {
+  return {
+    uid: record.uid,
+    email: record.email ?? null,
+    displayName: record.displayName ?? null,
+    role: ROLES.includes(role as UserRole) ? (role as UserRole) : 'viewer',
+    disabled: record.disabled,
+    createdAt: record.metadata.creationTime ?? null,
+    lastSignInAt: record.metadata.lastSignInTime ?? null,
+  };
+}
+
+/**
+ * List every Firebase Auth account with its dashboard role.
+ * Accounts created by hand in the console show up too, as viewers.
+ */
+export const listUsers = onCall(async (request): Promise<ManagedUser[]> => {
+  await requireAdmin(request);
+
+  const records: UserRecord[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await auth.listUsers(1000, pageToken);
+    records.push(...page.users);
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  const profiles = await db.collection(USERS_COLLECTION).get();
+  const roles = new Map(profiles.docs.map((doc) => [doc.id, doc.get('role')]));
+
+  return records
+    .map((record) => toManagedUser(record, roles.get(record.uid)))
+    .sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+});
+
+/**
+ * Create an account for a new dashboard user. The client then sends the
+ * password-setup email, so the account never has a password we know.
+ */
+export const inviteUser = onCall(async (request): Promise<ManagedUser> => {
+  const actor = await requireAdmin(request);
+  const { email, displayName } = request.data ?? {};
+  const role = assertValidRole(request.data?.role);
+
+  if (typeof email !== 'string' || !email.includes('@')) {
+    throw new HttpsError('invalid-argument', 'A valid email address is required');
+  }
+
+  let record: UserRecord;
+  try {
+    record = await auth.createUser({
+      email: email.trim().toLowerCase(),
+      displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : undefined,
+    });
+  } catch (error) {
+    if ((error as { code?: string }).code === 'auth/email-already-exists') {
+      throw new HttpsError('already-exists', 'An account with this email already exists');
+    }
+    throw error;
+  }
+
+  await updateProfile(
+    record.uid,
+    actor,
+    'user.invite',
+    {
+      email: record.email,
+      displayName: record.displayName ?? null,
+      role,
+      disabled: false,
+      createdAt: FieldValue.serverTimestamp(),
+      invitedBy: actor.uid,
+    },
+    { role }
+  );
+
+  return toManagedUser(record, role);
+});
+
+/**
+ * Change a user's dashboard role
+ */
+export const setUserRole = onCall(async (request): Promise<void> => {
+  const actor = await requireAdmin(request);
+  const uid = assertUid(request.data?.uid);
+  const role = assertValidRole(request.data?.role);
+
+  if (uid === actor.uid && role !== 'admin') {
+    throw new HttpsError('failed-precondition', 'You cannot remove your own admin role');
+  }
+
+  const record = await auth.getUser(uid);
+  const previous = (await db.collection(USERS_COLLECTION).doc(uid).get()).get('role') ?? 'viewer';
+
+  await updateProfile(uid, actor, 'user.role-change', { email: record.email ?? null, role }, { from: previous, to: role });
+});
+
+/**
+ * Disable or re-enable a user's account. Disabling also signs them out everywhere.
+ */
+export const setUserDisabled = onCall(async (request): Promise<void> => {
+  const actor = await requireAdmin(request);
+  const uid = assertUid(request.data?.uid);
+  const disabled = request.data?.disabled === true;
+
+  if (uid === actor.uid && disabled) {
+    throw new HttpsError('failed-precondition', 'You cannot disable your own account');
+  }
+
+  const record = await auth.updateUser(uid, { disabled });
+  if (disabled) {
+    await auth.revokeRefreshTokens(uid);
+  }
+
+  await updateProfile(uid, actor, disabled ? 'user.disable' : 'user.enable', { email: record.email ?? null, disabled });
+});
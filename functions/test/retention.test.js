@@ -0,0 +1,146 @@
+// Runs against the Firestore emulator: `npm test` starts it and builds lib/ first.
+const { after, beforeEach, describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.GCLOUD_PROJECT ??= 'demo-munbyn';
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  throw new Error('FIRESTORE_EMULATOR_HOST is not set; run the tests with `npm test`');
+}
+
+const { db } = require('../lib/admin');
+const { MAX_CHUNK_BYTES, archiveExpiredPackages, getArchiveCutoffYmd } = require('../lib/retention');
+
+// 2026-03-31 22:00 in New York, already April in UTC
+const NOW = new Date('2026-04-01T02:00:00Z');
+
+const DERIVED_FIELDS = ['carrierName', 'scanHour', 'trackingReversed', 'trackingGrams'];
+
+async function clearEmulator() {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${process.env.GCLOUD_PROJECT}/databases/(default)/documents`;
+  const response = await fetch(url, { method: 'DELETE' });
+  assert.ok(response.ok, `Clearing the emulator failed: ${response.status}`);
+}
+
+async function seed(packages, settings) {
+  const batch = db.batch();
+  batch.set(db.doc('settings/retention'), settings);
+  Object.entries(packages).forEach(([id, data]) => batch.set(db.collection('packages').doc(id), data));
+  await batch.commit();
+}
+
+function scan(dateYmd, extra = {}) {
+  const tracking = `1Z999AA1${dateYmd}`;
+  return {
+    tracking,
+    carrier: 'UPS',
+    dateYmd,
+    timestamp: `${dateYmd.slice(0, 4)}-${dateYmd.slice(4, 6)}-${dateYmd.slice(6, 8)} 10:00:00`,
+    carrierName: 'UPS',
+    scanHour: 10,
+    trackingReversed: tracking.split('').reverse().join(''),
+    trackingGrams: [tracking.slice(0, 4)],
+    ...extra,
+  };
+}
+
+async function getChunks(month) {
+  const snapshot = await db.collection(`packageArchives/${month}/chunks`).get();
+  return snapshot.docs.map((doc) => doc.get('packages'));
+}
+
+async function getPackageIds() {
+  const snapshot = await db.collection('packages').get();
+  return snapshot.docs.map((doc) => doc.id).sort();
+}
+
+describe('getArchiveCutoffYmd', () => {
+  it('counts months in the given time zone', () => {
+    assert.equal(getArchiveCutoffYmd(NOW, 2, 'UTC'), '20260201');
+    assert.equal(getArchiveCutoffYmd(NOW, 2, 'America/New_York'), '20260101');
+  });
+
+  it('rolls back across years', () => {
+    assert.equal(getArchiveCutoffYmd(new Date('2026-01-15T12:00:00Z'), 13, 'UTC'), '20241201');
+  });
+});
+
+describe('archiveExpiredPackages', () => {
+  beforeEach(clearEmulator);
+  after(clearEmulator);
+
+  it('archives whole months before the cutoff, grouped by month', async () => {
+    await seed(
+      {
+        nov30: scan('20251130'),
+        dec01: scan('20251201'),
+        dec31: scan('20251231'),
+        jan15: scan('20260115'),
+        mar01: scan('20260301'),
+      },
+      { enabled: true, archiveAfterMonths: 2, timeZone: 'America/New_York' }
+    );
+
+    const result = await archiveExpiredPackages(NOW);
+
+    assert.equal(result.cutoffYmd, '20260101');
+    assert.equal(result.archived, 3);
+    assert.deepEqual(result.months, { 202511: 1, 202512: 2 });
+    assert.deepEqual(await getPackageIds(), ['jan15', 'mar01']);
+
+    const december = (await db.doc('packageArchives/202512').get()).data();
+    assert.equal(december.count, 2);
+    assert.equal(december.chunkCount, 1);
+
+    const [chunk] = await getChunks('202512');
+    assert.deepEqual(chunk.map((pkg) => pkg.id).sort(), ['dec01', 'dec31']);
+    chunk.forEach((pkg) => {
+      assert.equal(pkg.tracking, `1Z999AA1${pkg.dateYmd}`);
+      DERIVED_FIELDS.forEach((field) => assert.equal(field in pkg, false, `${field} was archived`));
+    });
+
+    const settings = (await db.doc('settings/retention').get()).data();
+    assert.equal(settings.archivedBeforeYmd, '20260101');
+  });
+
+  it('archives nothing more when run again', async () => {
+    await seed(
+      { nov30: scan('20251130'), jan15: scan('20260115') },
+      { enabled: true, archiveAfterMonths: 2, timeZone: 'America/New_York' }
+    );
+
+    await archiveExpiredPackages(NOW);
+    const second = await archiveExpiredPackages(NOW);
+
+    assert.equal(second.archived, 0);
+    assert.equal((await db.doc('packageArchives/202511').get()).get('count'), 1);
+    assert.equal((await getChunks('202511')).length, 1);
+  });
+
+  it('splits a month into chunks by size and deletes every package it wrote', async () => {
+    const notes = 'x'.repeat(200 * 1024);
+    const packages = Object.fromEntries(
+      Array.from({ length: 6 }, (_, i) => [`big${i}`, scan(`202511${String(i + 1).padStart(2, '0')}`, { notes })])
+    );
+    await seed(packages, { enabled: true, archiveAfterMonths: 2, timeZone: 'UTC' });
+
+    const result = await archiveExpiredPackages(NOW);
+
+    assert.equal(result.archived, 6);
+    const chunks = await getChunks('202511');
+    assert.ok(chunks.length > 1, 'expected the month to be split');
+    assert.equal((await db.doc('packageArchives/202511').get()).get('chunkCount'), chunks.length);
+    chunks.forEach((chunk) => assert.ok(Buffer.byteLength(JSON.stringify(chunk)) <= MAX_CHUNK_BYTES));
+
+    // Every deleted package is in exactly one chunk
+    const archivedIds = chunks.flat().map((pkg) => pkg.id).sort();
+    assert.deepEqual(archivedIds, Object.keys(packages).sort());
+    assert.deepEqual(await getPackageIds(), []);
+  });
+
+  it('does nothing while the policy is disabled', async () => {
+    await seed({ nov30: scan('20251130') }, { enabled: false, archiveAfterMonths: 2 });
+
+    assert.equal(await archiveExpiredPackages(NOW), null);
+    assert.deepEqual(await getPackageIds(), ['nov30']);
+  });
+});
@@ -0,0 +1,242 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { DateRangePicker } from './ui/date-picker-range';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  AUDIT_ACTION_LABELS,
+  getAllAuditEntries,
+  getAuditLog,
+  type AuditAction,
+  type AuditEntry,
+  type AuditLogFilter,
+} from '../services/auditService';
+
+const PAGE_SIZE = 50;
+
+// Select value for "every action"
+const ALL_ACTIONS = 'all';
+
+const formatDetails = (details: Record<string, unknown>): string =>
+  Object.entries(details)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' && value !== null ? JSON.stringify(value) : value}`)
+    .join(', ');
+
+const formatTarget = (entry: AuditEntry): string =>
+  entry.targetLabel && entry.targetLabel !== entry.targetId
+    ? `${entry.targetLabel} (${entry.targetId})`
+    : entry.targetId;
+
+const AuditLogSection = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Filters
+  const [action, setAction] = useState<string>(ALL_ACTIONS);
+  const [actorEmail, setActorEmail] = useState('');
+  const [dateRange, setDateRange] = useState<{ startDate: Date | null; endDate: Date | null }>({
+    startDate: null,
+    endDate: null,
+  });
+  const [appliedFilter, setAppliedFilter] = useState<AuditLogFilter>({});
+
+  const loadPage = useCallback(async (filter: AuditLogFilter, after: QueryDocumentSnapshot | null) => {
+    setIsLoading(true);
+    try {
+      const page = await getAuditLog(filter, PAGE_SIZE, after);
+      setEntries(previous => (after ? [...previous, ...page.entries] : page.entries));
+      setCursor(page.cursor);
+    } catch (error) {
+      toast.error(`Error loading audit log: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(appliedFilter, null);
+  }, [appliedFilter, loadPage]);
+
+  const handleApplyFilters = () => {
+    let to: Date | undefined;
+    if (dateRange.endDate) {
+      to = new Date(dateRange.endDate);
+      to.setHours(23, 59, 59, 999);
+    }
+
+    setAppliedFilter({
+      action: action === ALL_ACTIONS ? undefined : (action as AuditAction),
+      actorEmail: actorEmail.trim() || undefined,
+      from: dateRange.startDate ?? undefined,
+      to,
+    });
+  };
+
+  const handleClearFilters = () => {
+    setAction(ALL_ACTIONS);
+    setActorEmail('');
+    setDateRange({ startDate: null, endDate: null });
+    setAppliedFilter({});
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const allEntries = await getAllAuditEntries(appliedFilter);
+      if (allEntries.length === 0) {
+        toast('No audit entries match the current filters');
+        return;
+      }
+
+      const quote = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+      let csvContent = 'Time,Actor,Action,Target Type,Target,Details\n';
+      allEntries.forEach(entry => {
+        csvContent += [
+          entry.at ? format(entry.at.toDate(), 'yyyy-MM-dd HH:mm:ss') : '',
+          entry.actorEmail || entry.actorUid,
+          AUDIT_ACTION_LABELS[entry.action] || entry.action,
+          entry.targetType,
+          formatTarget(entry),
+          JSON.stringify(entry.details),
+        ].map(quote).join(',') + '\n';
+      });
+
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `audit_log_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${allEntries.length} audit entries`);
+    } catch (error) {
+      toast.error(`Error exporting audit log: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Audit Log</h2>
+          <p className="text-sm text-gray-500">
+            Every administrative action, who performed it and when. Entries cannot be edited or removed.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-1.5">
+          <label className="text-sm font-medium">Action</label>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(key => (
+                <SelectItem key={key} value={key}>{AUDIT_ACTION_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-1.5">
+          <label htmlFor="audit-actor" className="text-sm font-medium">Actor Email</label>
+          <Input
+            id="audit-actor"
+            type="email"
+            placeholder="name@example.com"
+            value={actorEmail}
+            onChange={(e) => setActorEmail(e.target.value)}
+            className="w-[220px]"
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <label className="text-sm font-medium">Date Range</label>
+          <DateRangePicker dateRange={dateRange} onDateRangeChange={setDateRange} />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleApplyFilters}>Apply</Button>
+          <Button variant="ghost" onClick={handleClearFilters}>Clear</Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full bg-white">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Time</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Actor</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Action</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Target</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading && entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">No audit entries found</td>
+              </tr>
+            ) : entries.map(entry => (
+              <Fragment key={entry.id}>
+                <tr
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <td className="py-3 px-4 text-sm text-gray-500 whitespace-nowrap">
+                    {entry.at ? format(entry.at.toDate(), 'MMM d, yyyy HH:mm:ss') : 'Pending'}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{entry.actorEmail || entry.actorUid}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{formatTarget(entry)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-500 max-w-[320px] truncate">{formatDetails(entry.details)}</td>
+                </tr>
+                {expandedId === entry.id && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={5} className="py-3 px-6">
+                      <pre className="text-xs text-gray-700 whitespace-pre-wrap">{JSON.stringify(entry.details, null, 2)}</pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {cursor && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadPage(appliedFilter, cursor)} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogSection;
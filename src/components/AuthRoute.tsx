@@ -1,5 +1,6 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/useAuth';
+import { hasRole, type UserRole } from '../config/roles';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -41,4 +42,25 @@ export const PublicRoute = ({ children, restricted = false }: PublicRouteProps)
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
+
+interface RequireRoleProps {
+  children: React.ReactNode;
+  /** Minimum role needed; higher roles are allowed too */
+  role: UserRole;
+}
+
+export const RequireRole = ({ children, role }: RequireRoleProps) => {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!hasRole(user?.role, role)) {
+    // Signed in but not allowed here: send them back to the dashboard
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
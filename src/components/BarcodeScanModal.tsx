@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface BarcodeScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the first barcode read; the modal closes itself afterwards */
+  onDetected: (value: string) => void;
+}
+
+// The Barcode Detection API isn't in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+// Shipping labels carry the tracking number as Code 128, QR or PDF417
+const TRACKING_BARCODE_FORMATS = ['code_128', 'qr_code', 'pdf417'];
+
+// Time between detection attempts, so decoding doesn't hog slower phones
+const SCAN_INTERVAL_MS = 250;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const BarcodeScanModal: React.FC<BarcodeScanModalProps> = ({ isOpen, onClose, onDetected }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Keep the latest callbacks without restarting the camera when they change
+  const onDetectedRef = useRef(onDetected);
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+    onCloseRef.current = onClose;
+  }, [onDetected, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      setError(null);
+      const BarcodeDetector = getBarcodeDetector();
+      if (!BarcodeDetector) {
+        setError('This browser cannot read barcodes from the camera. Use Chrome or Edge on Android, or a USB barcode scanner.');
+        return;
+      }
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera access needs a secure (https) connection.');
+        return;
+      }
+
+      try {
+        setIsStarting(true);
+        const supported = await BarcodeDetector.getSupportedFormats();
+        const formats = TRACKING_BARCODE_FORMATS.filter(format => supported.includes(format));
+        if (!formats.length) {
+          setError('This device cannot read Code 128, QR or PDF417 barcodes.');
+          return;
+        }
+
+        // Prefer the rear camera on phones and tablets
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (stopped || !videoRef.current) {
+          // Closed while the permission prompt was open, after the cleanup below already ran
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new BarcodeDetector({ formats });
+        const scan = async () => {
+          if (stopped || !videoRef.current) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (barcode?.rawValue && !stopped) {
+              onDetectedRef.current(barcode.rawValue.trim());
+              onCloseRef.current();
+              return;
+            }
+          } catch (err) {
+            // A frame that isn't ready yet; try the next one
+            console.warn('Barcode detection failed:', err);
+          }
+          timer = setTimeout(scan, SCAN_INTERVAL_MS);
+        };
+        scan();
+      } catch (err) {
+        console.error('Error starting the camera:', err);
+        setError(err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser settings and try again.'
+          : 'The camera could not be started.');
+      } finally {
+        setIsStarting(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md p-6">
+        <DialogHeader>
+          <DialogTitle>Scan a Barcode</DialogTitle>
+          <DialogDescription>
+            Point the camera at the tracking barcode on the label.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="relative overflow-hidden rounded-md bg-black aspect-video">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            {/* Aiming guide */}
+            <div className="absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/70 pointer-events-none"></div>
+            {isStarting && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-white">
+                Starting camera...
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeScanModal;
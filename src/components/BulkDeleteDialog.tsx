@@ -0,0 +1,270 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import { DatePicker } from './ui/date-picker';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { getDeviceLabelFromCache } from '../config/deviceLabels';
+import {
+  createDeleteJob,
+  previewDeleteRange,
+  runDeleteJob,
+  type DeleteJob,
+  type DeletePreview,
+  type DeletePreviewRow,
+  type DeleteProgress,
+} from '../services/bulkDeleteService';
+import { DEFAULT_TRASH_RETENTION_DAYS, getTrashRetentionDays } from '../services/trashService';
+
+interface BulkDeleteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // An unfinished job to continue instead of starting a new one
+  resumeJob?: DeleteJob | null;
+  onFinished?: () => void;
+}
+
+type Step = 'select' | 'preview' | 'deleting';
+
+// Rows shown per preview breakdown before collapsing the rest
+const PREVIEW_ROWS = 8;
+
+const formatYmd = (dateYmd: string): string =>
+  `${dateYmd.slice(0, 4)}-${dateYmd.slice(4, 6)}-${dateYmd.slice(6, 8)}`;
+
+const formatCount = (count: number): string => new Intl.NumberFormat('en-US').format(count);
+
+const PreviewTable = ({ title, rows, label }: { title: string; rows: DeletePreviewRow[]; label: (key: string) => string }) => (
+  <div>
+    <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ul className="text-sm space-y-0.5">
+        {rows.slice(0, PREVIEW_ROWS).map(row => (
+          <li key={row.key} className="flex justify-between gap-2">
+            <span className="truncate">{label(row.key)}</span>
+            <span className="font-medium">{formatCount(row.count)}</span>
+          </li>
+        ))}
+        {rows.length > PREVIEW_ROWS && (
+          <li className="text-gray-500">and {rows.length - PREVIEW_ROWS} more</li>
+        )}
+      </ul>
+    )}
+  </div>
+);
+
+const BulkDeleteDialog = ({ open, onOpenChange, resumeJob, onFinished }: BulkDeleteDialogProps) => {
+  const [step, setStep] = useState<Step>('select');
+  const [startDate, setStartDate] = useState<Date | undefined>(undefined);
+  const [endDate, setEndDate] = useState<Date | undefined>(undefined);
+  const [preview, setPreview] = useState<DeletePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [progress, setProgress] = useState<DeleteProgress>({ deleted: 0, expected: 0 });
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (open) getTrashRetentionDays().then(setRetentionDays);
+  }, [open]);
+
+  const reset = () => {
+    setStep('select');
+    setStartDate(undefined);
+    setEndDate(undefined);
+    setPreview(null);
+    setProgress({ deleted: 0, expected: 0 });
+    setIsCancelling(false);
+  };
+
+  const runJob = async (job: DeleteJob) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStep('deleting');
+
+    try {
+      const result = await runDeleteJob(job, setProgress, controller.signal);
+      if (result.status === 'cancelled') {
+        toast(`Stopped after deleting ${formatCount(result.deleted)} packages. You can resume from the Admin page.`);
+      } else {
+        toast.success(`Moved ${formatCount(result.deleted)} packages to the recycle bin`);
+      }
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Error deleting packages: ${error instanceof Error ? error.message : error}. You can resume from the Admin page.`);
+      reset();
+      onOpenChange(false);
+    } finally {
+      abortControllerRef.current = null;
+      onFinished?.();
+    }
+  };
+
+  // Resuming skips straight to the deletion
+  useEffect(() => {
+    if (open && resumeJob && step === 'select') {
+      runJob(resumeJob);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, resumeJob]);
+
+  const handlePreview = async () => {
+    if (!startDate || !endDate) {
+      toast('Please select both start and end dates');
+      return;
+    }
+
+    if (endDate < startDate) {
+      toast('End date cannot be before start date');
+      return;
+    }
+
+    try {
+      setIsPreviewing(true);
+      setPreview(await previewDeleteRange(format(startDate, 'yyyyMMdd'), format(endDate, 'yyyyMMdd')));
+      setStep('preview');
+    } catch (error) {
+      toast.error(`Error loading preview: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!startDate || !endDate || !preview) return;
+
+    try {
+      const job = await createDeleteJob(format(startDate, 'yyyyMMdd'), format(endDate, 'yyyyMMdd'), preview.total);
+      await runJob(job);
+    } catch (error) {
+      toast.error(`Error starting deletion: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleCancel = () => {
+    setIsCancelling(true);
+    abortControllerRef.current?.abort();
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Closing mid-deletion would hide the only cancel button
+    if (step === 'deleting') return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const percent = progress.expected > 0 ? Math.min(100, Math.round((progress.deleted / progress.expected) * 100)) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Delete Packages by Date Range</DialogTitle>
+          <DialogDescription>
+            {step === 'select' && 'Select a date range. You will see what would be deleted before anything is removed.'}
+            {step === 'preview' && 'Review what will be deleted. Deleted packages go to the recycle bin, where they can be restored until they are purged.'}
+            {step === 'deleting' && 'Packages are deleted in batches. If this is interrupted it can be resumed from the Admin page.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' && (
+          <div className="space-y-4 py-2">
+            <DatePicker
+              date={startDate}
+              setDate={setStartDate}
+              label="Start Date"
+              placeholder="Select start date"
+            />
+
+            <DatePicker
+              date={endDate}
+              setDate={setEndDate}
+              label="End Date"
+              placeholder="Select end date"
+            />
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4 py-2">
+            <p className="text-sm">
+              <span className="font-semibold">{formatCount(preview.total)}</span> packages scanned between{' '}
+              {startDate && format(startDate, 'MMM d, yyyy')} and {endDate && format(endDate, 'MMM d, yyyy')} will be deleted.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 max-h-[300px] overflow-y-auto">
+              <PreviewTable title="By Day" rows={preview.days} label={formatYmd} />
+              <PreviewTable title="By Carrier" rows={preview.carriers} label={key => key} />
+              <PreviewTable title="By Device" rows={preview.devices} label={getDeviceLabelFromCache} />
+            </div>
+            <p className="text-sm text-gray-500">
+              Packages stay in the recycle bin for {retentionDays} days and are then permanently deleted.
+            </p>
+          </div>
+        )}
+
+        {step === 'deleting' && (
+          <div className="space-y-2 py-2">
+            <div className="w-full bg-gray-200 rounded-full h-2.5">
+              <div className="bg-red-600 h-2.5 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+            </div>
+            <p className="text-sm text-gray-600">
+              Deleted {formatCount(progress.deleted)} of {formatCount(progress.expected)} packages ({percent}%)
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'select' && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={!startDate || !endDate || isPreviewing}>
+                {isPreviewing ? 'Loading Preview...' : 'Preview'}
+              </Button>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('select')}>
+                Back
+              </Button>
+              <Button variant="destructive" onClick={handleDelete} disabled={!preview || preview.total === 0}>
+                Delete {preview ? formatCount(preview.total) : ''} Packages
+              </Button>
+            </>
+          )}
+
+          {step === 'deleting' && (
+            <Button variant="outline" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? (
+                <>
+                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Stopping...
+                </>
+              ) : (
+                'Cancel Deletion'
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkDeleteDialog;
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { getCarrierName } from '../config/carriers';
+import { getDeviceLabelFromCache } from '../config/deviceLabels';
+import { normalizeTrackingNumber } from '../config/trackingNumbers';
+import { getScansByTrackingNumber, type PackageScan } from '../services/packageService';
+import { downloadFile, parseCsv, toCsv, type CsvColumn } from '../utils/csv';
+import { createXlsxWriter, readXlsxRows, XLSX_TYPE, type XlsxColumn } from '../utils/xlsx';
+
+interface BulkLookupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface LookupResult {
+  tracking: string;
+  // Every scan of the number, oldest first; empty when it was never scanned
+  scans: PackageScan[];
+}
+
+type ResultFilter = 'all' | 'found' | 'missing';
+
+// Most numbers looked up at once, so a wrong file doesn't start hundreds of queries
+const MAX_LOOKUP_NUMBERS = 1000;
+
+const RESULT_FILTERS: { id: ResultFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'found', label: 'Found' },
+  { id: 'missing', label: 'Not Found' },
+];
+
+const lastScan = (result: LookupResult): PackageScan | undefined => result.scans[result.scans.length - 1];
+
+const EXPORT_COLUMNS: CsvColumn<LookupResult>[] = [
+  { header: 'Tracking Number', value: result => result.tracking },
+  { header: 'Status', value: result => result.scans.length ? 'Found' : 'Not found' },
+  { header: 'Scans', value: result => result.scans.length },
+  { header: 'Last Scan', value: result => lastScan(result)?.timestamp ?? '' },
+  { header: 'Device ID', value: result => lastScan(result) ? getDeviceLabelFromCache(lastScan(result)?.deviceId) : '' },
+  { header: 'Carrier', value: result => lastScan(result) ? getCarrierName(lastScan(result)?.carrier) : '' },
+  { header: 'Username', value: result => lastScan(result)?.username ?? '' },
+];
+
+// Tracking numbers are a text column so long numbers aren't shown in scientific notation
+const XLSX_COLUMNS: XlsxColumn<LookupResult>[] = [
+  { header: 'Tracking Number', value: result => result.tracking, text: true, width: 28 },
+  { header: 'Status', value: result => result.scans.length ? 'Found' : 'Not found', width: 12 },
+  { header: 'Scans', value: result => result.scans.length, width: 8 },
+  { header: 'Last Scan', value: result => lastScan(result)?.timestamp ? new Date(lastScan(result)?.timestamp as string) : null, width: 20 },
+  { header: 'Device', value: result => lastScan(result) ? getDeviceLabelFromCache(lastScan(result)?.deviceId) : null, width: 20 },
+  { header: 'Carrier', value: result => lastScan(result) ? getCarrierName(lastScan(result)?.carrier) : null, width: 18 },
+  { header: 'Username', value: result => lastScan(result)?.username, width: 16 },
+];
+
+// How many skipped cells are listed
+const MAX_SKIPPED_SHOWN = 5;
+
+// A long number Excel stored as a number, e.g. 9.4001118992231974E+21; its last digits are lost
+const SCIENTIFIC_NOTATION = /^\d(\.\d+)?E\+\d+$/i;
+
+/**
+ * Tracking numbers among pasted or uploaded cells, normalized and without repeats.
+ * A tracking number has a digit and 8 to 40 letters and digits. Headers and other
+ * text are left out quietly; other cells with a digit are returned as skipped.
+ */
+const extractTrackingNumbers = (cells: string[]): { numbers: string[]; skipped: string[] } => {
+  const numbers: string[] = [];
+  const skipped: string[] = [];
+  cells.forEach(cell => {
+    const normalized = normalizeTrackingNumber(cell);
+    if (/^[0-9A-Z]{8,40}$/.test(normalized) && /\d/.test(normalized)) {
+      numbers.push(normalized);
+    } else if (/\d/.test(cell)) {
+      skipped.push(cell.trim());
+    }
+  });
+  return { numbers: Array.from(new Set(numbers)), skipped };
+};
+
+const BulkLookupModal: React.FC<BulkLookupModalProps> = ({ isOpen, onClose }) => {
+  const [input, setInput] = useState('');
+  const [results, setResults] = useState<LookupResult[] | null>(null);
+  const [resultFilter, setResultFilter] = useState<ResultFilter>('all');
+  const [loading, setLoading] = useState(false);
+  // Cells of the last upload or lookup that look like data but aren't tracking numbers
+  const [skippedCells, setSkippedCells] = useState<string[]>([]);
+
+  const resetForm = () => {
+    setInput('');
+    setSkippedCells([]);
+    setResults(null);
+    setResultFilter('all');
+  };
+
+  // Uploaded files are read into the text box, so the list can be checked before looking it up
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = /\.xlsx$/i.test(file.name) ? await readXlsxRows(file) : parseCsv(await file.text());
+      const { numbers, skipped } = extractTrackingNumbers(rows.flat());
+      setSkippedCells(skipped);
+      if (!numbers.length) {
+        toast.error(`No tracking numbers found in ${file.name}`);
+        return;
+      }
+      setInput(numbers.join('\n'));
+      setResults(null);
+    } catch (err) {
+      console.error('Error reading file:', err);
+      toast.error(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleLookup = async () => {
+    const { numbers, skipped } = extractTrackingNumbers(input.split(/[\r\n,;\t]+/));
+    // Numbers read from a file are already clean; keep what was skipped reading it
+    if (skipped.length) setSkippedCells(skipped);
+    if (!numbers.length) {
+      toast.error('Paste or upload at least one tracking number');
+      return;
+    }
+    if (numbers.length > MAX_LOOKUP_NUMBERS) {
+      toast.error(`Look up at most ${MAX_LOOKUP_NUMBERS} tracking numbers at a time`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const scans = await getScansByTrackingNumber(numbers);
+      setResults(numbers.map(tracking => ({ tracking, scans: scans.get(tracking) ?? [] })));
+      setResultFilter('all');
+    } catch (err) {
+      console.error('Error looking up tracking numbers:', err);
+      toast.error(`Failed to look up tracking numbers: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportCSV = () => {
+    if (!results) return;
+    downloadFile(
+      toCsv(EXPORT_COLUMNS, results),
+      `bulk_lookup_${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      'text/csv;charset=utf-8;'
+    );
+    toast.success(`Exported ${results.length} tracking numbers to CSV`);
+  };
+
+  const handleExportXlsx = async () => {
+    if (!results) return;
+    const parts: BlobPart[] = [];
+    const workbook = createXlsxWriter(async chunk => { parts.push(chunk); });
+    await (await workbook.addSheet('Lookup', XLSX_COLUMNS)).addRows(results);
+    await workbook.close();
+    downloadFile(new Blob(parts), `bulk_lookup_${format(new Date(), 'yyyy-MM-dd')}.xlsx`, XLSX_TYPE);
+    toast.success(`Exported ${results.length} tracking numbers to Excel`);
+  };
+
+  const handleDialogClose = (open: boolean) => {
+    if (!open) {
+      resetForm();
+      onClose();
+    }
+  };
+
+  const foundCount = results?.filter(result => result.scans.length).length ?? 0;
+  const hasScientificNotation = skippedCells.some(cell => SCIENTIFIC_NOTATION.test(cell));
+  const shownResults = (results ?? []).filter(result =>
+    resultFilter === 'all' || (resultFilter === 'found') === result.scans.length > 0
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleDialogClose}>
+      <DialogContent className="sm:max-w-4xl p-6">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Bulk Tracking Lookup</DialogTitle>
+          <DialogDescription className="text-base mt-2">
+            Paste tracking numbers, one per line or separated by commas, or upload a CSV or Excel file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <textarea
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setSkippedCells([]);
+            }}
+            rows={6}
+            placeholder={'1Z999AA10123456784\n9400111899223197428490'}
+            className="w-full rounded-md border border-input px-3 py-2 text-sm font-mono shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="text-sm text-gray-700">
+              <span className="mr-2">Upload</span>
+              <input type="file" accept=".csv,.txt,.xlsx" onChange={handleFileChange} className="text-sm" />
+            </label>
+            <Button onClick={handleLookup} disabled={loading || !input.trim()}>
+              {loading ? 'Looking Up...' : 'Look Up'}
+            </Button>
+          </div>
+
+          {skippedCells.length > 0 && (
+            <div className="rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+              <p>
+                Skipped {skippedCells.length} {skippedCells.length === 1 ? 'cell' : 'cells'} that {skippedCells.length === 1 ? "isn't a tracking number" : "aren't tracking numbers"}:{' '}
+                <span className="font-mono">{skippedCells.slice(0, MAX_SKIPPED_SHOWN).join(', ')}</span>
+                {skippedCells.length > MAX_SKIPPED_SHOWN && ', …'}
+              </p>
+              {hasScientificNotation && (
+                <p className="mt-1">
+                  Numbers like 9.4E+21 were saved by Excel as numbers and have lost their last digits.
+                  Format the column as Text, enter them again and upload the file again.
+                </p>
+              )}
+            </div>
+          )}
+
+          {results && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">{foundCount}</span> of{' '}
+                  <span className="font-medium">{results.length}</span> found
+                </p>
+                <div className="flex gap-1">
+                  {RESULT_FILTERS.map(filter => (
+                    <button
+                      key={filter.id}
+                      onClick={() => setResultFilter(filter.id)}
+                      className={`px-3 py-1 rounded-md text-sm ${
+                        resultFilter === filter.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="max-h-80 overflow-auto rounded-md border border-gray-200">
+                <table className="min-w-full bg-white text-sm">
+                  <thead className="bg-gray-100 sticky top-0">
+                    <tr>
+                      <th className="py-2 px-3 text-left font-medium text-gray-700">Tracking Number</th>
+                      <th className="py-2 px-3 text-left font-medium text-gray-700">Status</th>
+                      <th className="py-2 px-3 text-left font-medium text-gray-700">Last Scan</th>
+                      <th className="py-2 px-3 text-left font-medium text-gray-700">Device</th>
+                      <th className="py-2 px-3 text-left font-medium text-gray-700">Carrier</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {shownResults.map(result => {
+                      const scan = lastScan(result);
+                      return (
+                        <tr key={result.tracking}>
+                          <td className="py-2 px-3 font-mono">
+                            {scan ? (
+                              <Link
+                                to={`/packages/${encodeURIComponent(scan.tracking)}`}
+                                className="text-indigo-600 hover:text-indigo-800 hover:underline"
+                              >
+                                {result.tracking}
+                              </Link>
+                            ) : result.tracking}
+                          </td>
+                          <td className="py-2 px-3">
+                            {scan ? (
+                              <span className="px-2 py-0.5 rounded bg-green-100 text-green-800 text-xs font-medium">
+                                Found{result.scans.length > 1 ? ` (${result.scans.length} scans)` : ''}
+                              </span>
+                            ) : (
+                              <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs font-medium">Not found</span>
+                            )}
+                          </td>
+                          <td className="py-2 px-3 text-gray-900">{scan?.timestamp ?? '—'}</td>
+                          <td className="py-2 px-3 text-gray-900">{scan ? getDeviceLabelFromCache(scan.deviceId) : '—'}</td>
+                          <td className="py-2 px-3 text-gray-900">{scan ? getCarrierName(scan.carrier) : '—'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => handleDialogClose(false)}>
+            Close
+          </Button>
+          <Button variant="outline" onClick={handleExportCSV} disabled={!results?.length}>
+            Export CSV
+          </Button>
+          <Button onClick={handleExportXlsx} disabled={!results?.length}>
+            Export Excel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BulkLookupModal;
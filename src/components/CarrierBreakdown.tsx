@@ -1,4 +1,5 @@
 import React from 'react';
+import { getCarrierColor, getCarrierShortName } from '../config/carriers';
 
 interface CarrierBreakdownProps {
   data: {
@@ -25,13 +26,13 @@ const CarrierBreakdown: React.FC<CarrierBreakdownProps> = ({ data }) => {
       {carriers.map((carrier) => (
         <div key={carrier.name} className="flex items-center text-xs text-gray-600 mt-1">
           <span className="flex-shrink-0 w-16 truncate" title={carrier.name}>
-            {formatCarrierName(carrier.name)}
+            {getCarrierShortName(carrier.name)}
           </span>
           <div className="flex-grow mx-2">
             <div className="w-full bg-gray-200 rounded-full h-1.5">
               <div 
-                className={`h-1.5 rounded-full ${getCarrierColor(carrier.name)}`} 
-                style={{ width: `${carrier.percentage}%` }}
+                className="h-1.5 rounded-full"
+                style={{ width: `${carrier.percentage}%`, backgroundColor: getCarrierColor(carrier.name) }}
               ></div>
             </div>
           </div>
@@ -42,49 +43,4 @@ const CarrierBreakdown: React.FC<CarrierBreakdownProps> = ({ data }) => {
   );
 };
 
-// Helper function to get a color for each carrier
-// Helper function to format carrier names for display
-const formatCarrierName = (carrier: string): string => {
-  if (carrier.length <= 10) {
-    return carrier;
-  }
-  
-  if (carrier.includes('FedEx Express')) {
-    return 'FedEx Exp';
-  } else if (carrier.includes('FedEx Ground')) {
-    return 'FedEx Gnd';
-  } else if (carrier.includes('USPS')) {
-    return 'USPS';
-  } else if (carrier.includes('Amazon')) {
-    return 'Amazon';
-  } else {
-    // Return first 8 characters + ...
-    return `${carrier.substring(0, 8)}...`;
-  }
-};
-
-const getCarrierColor = (carrier: string): string => {
-  // Normalize carrier name for comparison
-  const normalizedCarrier = carrier.toLowerCase();
-  
-  if (normalizedCarrier.includes('ups')) {
-    return 'bg-amber-600';
-  } else if (normalizedCarrier.includes('fedex') && normalizedCarrier.includes('express')) {
-    return 'bg-blue-600';
-  } else if (normalizedCarrier.includes('fedex') && normalizedCarrier.includes('ground')) {
-    return 'bg-green-600';
-  } else if (normalizedCarrier.includes('usps')) {
-    return 'bg-blue-800';
-  } else if (normalizedCarrier.includes('dhl')) {
-    return 'bg-yellow-500';
-  } else if (normalizedCarrier.includes('amazon')) {
-    return 'bg-orange-500';
-  } else {
-    // Generate a consistent color based on the carrier name
-    const hash = carrier.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
-    const hue = hash % 360;
-    return `bg-[hsl(${hue},60%,45%)]`;
-  }
-};
-
 export default CarrierBreakdown;
\ No newline at end of file
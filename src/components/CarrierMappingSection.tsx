@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  UNKNOWN_CARRIER_ID,
+  UNKNOWN_CARRIER_NAME,
+  getRawNameMapping,
+  resolveCarrier,
+} from '../config/carriers';
+import { useCarrierRegistry } from '../hooks/useCarrierRegistry';
+import { createCarrier, mapRawCarrierName } from '../services/carrierService';
+import { getRawCarrierCounts } from '../services/statsService';
+
+// Select value used for "no explicit mapping, use alias matching"
+const AUTOMATIC = 'auto';
+
+const CarrierMappingSection = () => {
+  const { carriers } = useCarrierRegistry();
+  const [rawCounts, setRawCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingRawName, setSavingRawName] = useState<string | null>(null);
+
+  // New carrier form
+  const [newName, setNewName] = useState('');
+  const [newShortName, setNewShortName] = useState('');
+  const [newColor, setNewColor] = useState('#6b7280');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadRawCounts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRawCounts(await getRawCarrierCounts());
+    } catch (error) {
+      toast.error(`Error loading carrier names: ${error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRawCounts();
+  }, [loadRawCounts]);
+
+  const handleMappingChange = async (rawName: string, value: string) => {
+    try {
+      setSavingRawName(rawName);
+      await mapRawCarrierName(rawName, value === AUTOMATIC ? null : value);
+      toast.success(`"${rawName}" is now mapped to ${value === AUTOMATIC ? 'automatic matching' : resolveCarrier(rawName).name}`);
+    } catch (error) {
+      toast.error(`Error saving carrier mapping: ${error}`);
+    } finally {
+      setSavingRawName(null);
+    }
+  };
+
+  const handleCreateCarrier = async () => {
+    if (!newName.trim()) {
+      toast('Please enter a carrier name');
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      await createCarrier({ name: newName, shortName: newShortName, color: newColor });
+      toast.success(`Created carrier ${newName.trim()}`);
+      setNewName('');
+      setNewShortName('');
+    } catch (error) {
+      toast.error(`Error creating carrier: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const rawNames = Object.entries(rawCounts).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Carrier Mapping</h2>
+        <p className="text-sm text-gray-500">
+          Every carrier value reported by the scanners, and the carrier it is counted as in KPIs, charts and filters.
+          Changes apply to every open dashboard immediately.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 max-h-[400px] overflow-y-auto">
+        <table className="min-w-full bg-white">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Scanner Value</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Scans</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Counted As</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Mapping</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={4} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+              </tr>
+            ) : rawNames.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="py-4 px-4 text-center text-sm text-gray-500">No carrier values found</td>
+              </tr>
+            ) : rawNames.map(([rawName, count]) => {
+              const resolved = resolveCarrier(rawName);
+              return (
+                <tr key={rawName} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm text-gray-900 font-mono">{rawName}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{new Intl.NumberFormat('en-US').format(count)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    <span className="inline-flex items-center">
+                      <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: resolved.color }}></span>
+                      {resolved.name}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-sm">
+                    <Select
+                      value={getRawNameMapping(rawName) || AUTOMATIC}
+                      onValueChange={(value) => handleMappingChange(rawName, value)}
+                      disabled={savingRawName === rawName}
+                    >
+                      <SelectTrigger className="w-full min-w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={AUTOMATIC}>Automatic</SelectItem>
+                        {carriers.map(carrier => (
+                          <SelectItem key={carrier.id} value={carrier.id}>{carrier.name}</SelectItem>
+                        ))}
+                        <SelectItem value={UNKNOWN_CARRIER_ID}>{UNKNOWN_CARRIER_NAME}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+        <div className="grid gap-1.5">
+          <label htmlFor="new-carrier-name" className="text-sm font-medium">New Carrier Name</label>
+          <Input
+            id="new-carrier-name"
+            placeholder="e.g. OnTrac"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <label htmlFor="new-carrier-short-name" className="text-sm font-medium">Short Name</label>
+          <Input
+            id="new-carrier-short-name"
+            placeholder="Optional"
+            value={newShortName}
+            onChange={(e) => setNewShortName(e.target.value)}
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <label htmlFor="new-carrier-color" className="text-sm font-medium">Color</label>
+          <Input
+            id="new-carrier-color"
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="p-1"
+          />
+        </div>
+        <Button onClick={handleCreateCarrier} disabled={isCreating || !newName.trim()}>
+          {isCreating ? 'Adding...' : 'Add Carrier'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CarrierMappingSection;
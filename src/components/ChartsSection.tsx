@@ -1,11 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, 
   Tooltip, Legend, PieChart, Pie, Cell
 } from 'recharts';
-import { fetchKpiData } from '../services/firestoreService';
+import { allStatsQuery, subscribeToDashboardStats, type DailyStats } from '../services/statsService';
+import { getCarrierColor, normalizeCarrierCounts } from '../config/carriers';
+import { useCarrierRegistry } from '../hooks/useCarrierRegistry';
+import { useUrlParams } from '../hooks/useUrlParams';
 import { format } from 'date-fns';
-import { getFirestore, collection, getDocs, onSnapshot } from 'firebase/firestore';
 
 // Define types
 interface DailyScans {
@@ -19,221 +21,92 @@ interface CarrierData {
   [key: string]: string | number; // Index signature for recharts compatibility
 }
 
-// Colors for different carriers
-const CARRIER_COLORS: { [key: string]: string } = {
-  'UPS': '#ff9800',
-  'FedEx Express': '#2196f3',
-  'FedEx Ground': '#4caf50',
-  'DHL': '#ffc107',
-  'Amazon': '#ff5722'
-};
-
-// Default color array for charts
-const DEFAULT_COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D'];
-
 const ChartsSection: React.FC = () => {
-  // State for time chart
-  const [timeChartData, setTimeChartData] = useState<DailyScans[]>([]);
-  const [isTimeChartLoading, setIsTimeChartLoading] = useState(true);
-  const [timeRange, setTimeRange] = useState<'daily' | 'monthly'>('daily');
-  const [timeChartLastUpdated, setTimeChartLastUpdated] = useState<Date | null>(null);
-  
-  // State for carrier share chart
-  const [carrierShareData, setCarrierShareData] = useState<CarrierData[]>([]);
-  const [isShareChartLoading, setIsShareChartLoading] = useState(true);
-  const [shareTimeframe, setShareTimeframe] = useState<'today' | 'month'>('today');
-  const [shareChartLastUpdated, setShareChartLastUpdated] = useState<Date | null>(null);
+  // Chart toggles live in the URL with the rest of the dashboard view; defaults are left out
+  const { searchParams, updateParams } = useUrlParams();
 
-  // No need for separate processing functions since we're handling this directly in useEffect
+  // Every daily rollup, oldest first, as the listener last delivered them
+  const [days, setDays] = useState<DailyStats[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // Bumped by the manual refresh to listen again from scratch
+  const [refreshCount, setRefreshCount] = useState(0);
 
-  // Initialize Firestore
-  const db = getFirestore();
+  const timeRange: 'daily' | 'monthly' = searchParams.get('chart') === 'monthly' ? 'monthly' : 'daily';
+  const setTimeRange = (range: 'daily' | 'monthly') => updateParams({ chart: range === 'daily' ? null : range });
+  const shareTimeframe: 'today' | 'month' = searchParams.get('share') === 'month' ? 'month' : 'today';
+  const setShareTimeframe = (timeframe: 'today' | 'month') => updateParams({ share: timeframe === 'today' ? null : timeframe });
 
-  // Define scan data interface
-  interface ScanData {
-    dateYmd?: string;
-    carrier?: string | { name?: string } | Record<string, unknown>;
-    tracking?: string;
-    timestamp?: string;
-    [key: string]: unknown;
-  }
-  
-  // Setup listener for real-time updates when data changes
+  // Re-aggregate whenever admins change the carrier mapping
+  const { version: carrierRegistryVersion } = useCarrierRegistry();
+
+  // Listen to the daily rollups (one small document per day), counted like the
+  // KPIs. Both charts are built from the snapshot itself, so a scan only costs
+  // the rollup it changed.
   useEffect(() => {
-    // Setup a listener for changes in the packages collection
-    const packagesCollection = collection(db, 'packages');
-    const unsubscribe = onSnapshot(
-      packagesCollection, 
-      async () => {
-        console.log('Database updated, refreshing charts...');
-        
-        // Trigger data load for both charts
-        loadTimeChartData();
-        loadCarrierShareData();
+    setIsLoading(true);
+    const unsubscribe = subscribeToDashboardStats(
+      allStatsQuery(),
+      (stats) => {
+        setDays(stats);
+        setLastUpdated(new Date());
+        setIsLoading(false);
       },
-      (error) => {
-        console.error('Error listening to package changes:', error);
-      }
+      () => setIsLoading(false)
     );
     
     // Cleanup listener on component unmount
     return () => unsubscribe();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [db]); // We don't want to include the loadX functions in the dependency array to avoid infinite loops
-  
-  // Function to load carrier share data
-  const loadCarrierShareData = async () => {
-    setIsShareChartLoading(true);
-    
-    try {
-      // Get KPI data for carrier breakdown
-      const kpiData = await fetchKpiData();
-      
-      // Process carrier share data from KPI data
-      let shareData: CarrierData[] = [];
-      if (shareTimeframe === 'today') {
-        shareData = Object.entries(kpiData.todayCarrierBreakdown)
-          .map(([name, value]) => ({ name, value }))
-          .filter(item => item.value > 0);
-      } else {
-        shareData = Object.entries(kpiData.monthCarrierBreakdown)
-          .map(([name, value]) => ({ name, value }))
-          .filter(item => item.value > 0);
+  }, [refreshCount]);
+
+  // Scans per canonical carrier in each day or month, oldest first
+  const timeChartData = useMemo((): DailyScans[] => {
+    // Create a map to store date-wise data (insertion order keeps it chronological)
+    const dateMap = new Map<string, { [carrier: string]: number }>();
+
+    days.forEach(stats => {
+      const dateObj = new Date(
+        parseInt(stats.dateYmd.substring(0, 4)),
+        parseInt(stats.dateYmd.substring(4, 6)) - 1, // Month is 0-indexed
+        parseInt(stats.dateYmd.substring(6, 8))
+      );
+      if (Number.isNaN(dateObj.getTime())) {
+        console.error('Invalid date format:', stats.dateYmd);
+        return;
       }
-      
-      setCarrierShareData(shareData);
-      setShareChartLastUpdated(new Date());
-    } catch (error) {
-      console.error('Error loading carrier share data:', error);
-      setCarrierShareData([]);
-    } finally {
-      setIsShareChartLoading(false);
-    }
-  };
-  
-  // Function to load time chart data
-  const loadTimeChartData = async () => {
-    setIsTimeChartLoading(true);
-    
-    try {
-      // Fetch all packages data for time chart
-      const allScans = await fetchAllPackages();
-      
-      // Create a map to store date-wise data
-      const dateMap = new Map<string, { [carrier: string]: number }>();
-      
-      // Process each scan and aggregate by date and carrier
-      allScans.forEach(scan => {
-        if (!scan.dateYmd || !scan.carrier) return;
-        
-        // Format date based on range
-        let dateKey;
-        try {
-          const dateObj = new Date(
-            parseInt(scan.dateYmd.substring(0, 4)),
-            parseInt(scan.dateYmd.substring(4, 6)) - 1, // Month is 0-indexed
-            parseInt(scan.dateYmd.substring(6, 8))
-          );
-          
-          dateKey = timeRange === 'daily' 
-            ? format(dateObj, 'MM/dd')
-            : format(dateObj, 'MM/yyyy');
-        } catch {
-          console.error('Invalid date format:', scan.dateYmd);
-          return;
-        }
-        
-        // Get carrier name
-        let carrierName = typeof scan.carrier === 'string' 
-          ? scan.carrier 
-          : (scan.carrier as {name?: string}).name || 'Unknown';
-          
-        // Normalize carrier names
-        if (carrierName.includes('FedEx') && carrierName.includes('Express')) {
-          carrierName = 'FedEx Express';
-        } else if (carrierName.includes('FedEx') && carrierName.includes('Ground')) {
-          carrierName = 'FedEx Ground';
-        } else if (carrierName.includes('UPS')) {
-          carrierName = 'UPS';
-        }
-        
-        // Create or update date entry
-        if (!dateMap.has(dateKey)) {
-          dateMap.set(dateKey, {});
-        }
-        
-        const dateData = dateMap.get(dateKey)!;
-        dateData[carrierName] = (dateData[carrierName] || 0) + 1;
-      });
-      
-      // Convert map to array and sort by date
-      const chartData: DailyScans[] = Array.from(dateMap.entries()).map(([date, carriers]) => {
-        return {
-          date,
-          ...carriers
-        };
-      });
-      
-      // Sort by date
-      chartData.sort((a, b) => {
-        // Parse MM/DD or MM/YYYY format
-        const partsA = a.date.split('/');
-        const partsB = b.date.split('/');
-        
-        if (partsA[0] !== partsB[0]) { // Compare months
-          return parseInt(partsA[0]) - parseInt(partsB[0]);
-        } else { // Compare days/years
-          return parseInt(partsA[1]) - parseInt(partsB[1]);
-        }
-      });
-      
-      setTimeChartData(chartData);
-      setTimeChartLastUpdated(new Date());
-    } catch (error) {
-      console.error('Error loading time chart data:', error);
-      setTimeChartData([]);
-    } finally {
-      setIsTimeChartLoading(false);
-    }
-  };
+      const dateKey = timeRange === 'daily' 
+        ? format(dateObj, 'MM/dd')
+        : format(dateObj, 'MM/yyyy');
 
-  // Fetch data from Firestore
-  const fetchAllPackages = async () => {
-    try {
-      const packagesCollection = collection(db, 'packages');
-      const packagesSnapshot = await getDocs(packagesCollection);
-      
-      const allScans: ScanData[] = [];
-      packagesSnapshot.forEach(doc => {
-        allScans.push(doc.data() as ScanData);
+      // Add the day's counts under their canonical carrier names
+      const dateData = dateMap.get(dateKey) ?? {};
+      Object.entries(normalizeCarrierCounts(stats.carriers)).forEach(([carrierName, count]) => {
+        dateData[carrierName] = (dateData[carrierName] || 0) + count;
       });
-      
-      return allScans;
-    } catch (error) {
-      console.error('Error fetching packages data:', error);
-      return [] as ScanData[];
-    }
-  };
+      dateMap.set(dateKey, dateData);
+    });
 
-  // Effect for carrier share chart - runs when shareTimeframe changes
-  useEffect(() => {
-    loadCarrierShareData();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [shareTimeframe]); // loadCarrierShareData depends on shareTimeframe, but we don't want to include it in deps
-  
-  // Effect for time chart - runs when timeRange changes
-  useEffect(() => {
-    loadTimeChartData();
+    return Array.from(dateMap.entries()).map(([date, carriers]) => ({ date, ...carriers }));
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [timeRange]); // loadTimeChartData depends on timeRange, but we don't want to include it in deps
+  }, [days, timeRange, carrierRegistryVersion]);
 
-  // Function to get a color for a carrier
-  const getCarrierColor = (carrier: string) => {
-    return CARRIER_COLORS[carrier] || 
-      DEFAULT_COLORS[Object.keys(CARRIER_COLORS).length % DEFAULT_COLORS.length];
-  };
-
-  // No custom type needed - we'll use inline types
+  // Today's or this month's scans per canonical carrier
+  const carrierShareData = useMemo((): CarrierData[] => {
+    const todayYmd = format(new Date(), 'yyyyMMdd');
+    const prefix = shareTimeframe === 'today' ? todayYmd : todayYmd.slice(0, 6);
+    const breakdown: Record<string, number> = {};
+    days
+      .filter(stats => stats.dateYmd.startsWith(prefix))
+      .forEach(stats => {
+        Object.entries(normalizeCarrierCounts(stats.carriers)).forEach(([carrier, count]) => {
+          breakdown[carrier] = (breakdown[carrier] || 0) + count;
+        });
+      });
+    return Object.entries(breakdown)
+      .map(([name, value]) => ({ name, value }))
+      .filter(item => item.value > 0);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days, shareTimeframe, carrierRegistryVersion]);
 
   // Get all unique carriers from the time chart data
   const getUniqueCarriers = () => {
@@ -250,13 +123,8 @@ const ChartsSection: React.FC = () => {
 
   // Function to manually refresh all chart data if needed
   const refreshAllChartData = () => {
-    // Reset timestamps
-    setTimeChartLastUpdated(null);
-    setShareChartLastUpdated(null);
-    
-    // Trigger data reload
-    loadTimeChartData();
-    loadCarrierShareData();
+    setLastUpdated(null);
+    setRefreshCount(count => count + 1);
   };
 
   return (
@@ -291,14 +159,14 @@ const ChartsSection: React.FC = () => {
             <div className="flex space-x-1">
               <button
                 onClick={() => setTimeRange('daily')}
-                disabled={isTimeChartLoading}
+                disabled={isLoading}
                 className={`px-3 py-1 text-xs font-medium rounded-md flex items-center ${
                   timeRange === 'daily'
                     ? 'bg-indigo-100 text-indigo-700'
                     : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
                 }`}
               >
-                {isTimeChartLoading && timeRange === 'daily' && (
+                {isLoading && timeRange === 'daily' && (
                   <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-indigo-700" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -308,14 +176,14 @@ const ChartsSection: React.FC = () => {
               </button>
               <button
                 onClick={() => setTimeRange('monthly')}
-                disabled={isTimeChartLoading}
+                disabled={isLoading}
                 className={`px-3 py-1 text-xs font-medium rounded-md flex items-center ${
                   timeRange === 'monthly'
                     ? 'bg-indigo-100 text-indigo-700'
                     : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
                 }`}
               >
-                {isTimeChartLoading && timeRange === 'monthly' && (
+                {isLoading && timeRange === 'monthly' && (
                   <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-indigo-700" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -325,13 +193,13 @@ const ChartsSection: React.FC = () => {
               </button>
             </div>
           </div>
-          {timeChartLastUpdated && (
+          {lastUpdated && (
             <div className="text-xs text-gray-400 mb-2 text-right">
-              Last updated: {format(timeChartLastUpdated, "MMM d, yyyy 'at' h:mm a")}
+              Last updated: {format(lastUpdated, "MMM d, yyyy 'at' h:mm a")}
             </div>
           )}
           
-          {isTimeChartLoading ? (
+          {isLoading ? (
             <div className="h-64 flex items-center justify-center">
               <div className="animate-pulse text-gray-400">Loading chart data...</div>
             </div>
@@ -376,14 +244,14 @@ const ChartsSection: React.FC = () => {
             <div className="flex space-x-1">
               <button
                 onClick={() => setShareTimeframe('today')}
-                disabled={isShareChartLoading}
+                disabled={isLoading}
                 className={`px-3 py-1 text-xs font-medium rounded-md flex items-center ${
                   shareTimeframe === 'today'
                     ? 'bg-indigo-100 text-indigo-700'
                     : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
                 }`}
               >
-                {isShareChartLoading && shareTimeframe === 'today' && (
+                {isLoading && shareTimeframe === 'today' && (
                   <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-indigo-700" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -393,14 +261,14 @@ const ChartsSection: React.FC = () => {
               </button>
               <button
                 onClick={() => setShareTimeframe('month')}
-                disabled={isShareChartLoading}
+                disabled={isLoading}
                 className={`px-3 py-1 text-xs font-medium rounded-md flex items-center ${
                   shareTimeframe === 'month'
                     ? 'bg-indigo-100 text-indigo-700'
                     : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
                 }`}
               >
-                {isShareChartLoading && shareTimeframe === 'month' && (
+                {isLoading && shareTimeframe === 'month' && (
                   <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-indigo-700" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -410,13 +278,13 @@ const ChartsSection: React.FC = () => {
               </button>
             </div>
           </div>
-          {shareChartLastUpdated && (
+          {lastUpdated && (
             <div className="text-xs text-gray-400 mb-2 text-right">
-              Last updated: {format(shareChartLastUpdated, "MMM d, yyyy 'at' h:mm a")}
+              Last updated: {format(lastUpdated, "MMM d, yyyy 'at' h:mm a")}
             </div>
           )}
           
-          {isShareChartLoading ? (
+          {isLoading ? (
             <div className="h-64 flex items-center justify-center">
               <div className="animate-pulse text-gray-400">Loading chart data...</div>
             </div>
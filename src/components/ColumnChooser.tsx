@@ -0,0 +1,52 @@
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+export interface ChoosableColumn {
+  id: string;
+  label: string;
+}
+
+interface ColumnChooserProps {
+  columns: ChoosableColumn[];
+  visible: string[];
+  onChange: (visible: string[]) => void;
+}
+
+// Checkbox list for showing and hiding table columns
+const ColumnChooser = ({ columns, visible, onChange }: ColumnChooserProps) => {
+  const toggle = (id: string) => {
+    onChange(
+      visible.includes(id)
+        ? visible.filter(columnId => columnId !== id)
+        : columns.map(column => column.id).filter(columnId => columnId === id || visible.includes(columnId))
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+          </svg>
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-2">
+        <p className="px-2 py-1 text-xs font-medium text-gray-500 uppercase tracking-wider">Show columns</p>
+        {columns.map(column => (
+          <label key={column.id} className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-gray-50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={visible.includes(column.id)}
+              onChange={() => toggle(column.id)}
+            />
+            {column.label}
+          </label>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ColumnChooser;
@@ -1,7 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from './ui/button';
-import { getFirestore, collection, query, getDocs, where, orderBy, QueryConstraint } from 'firebase/firestore';
-import { format } from 'date-fns';
+import {
+  getFirestore,
+  collection,
+  query,
+  getDocs,
+  getCountFromServer,
+  where,
+  orderBy,
+  startAfter,
+  limit,
+  QueryConstraint,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { differenceInCalendarDays, format } from 'date-fns';
 import toast from 'react-hot-toast';
 import {
   Dialog,
@@ -20,6 +33,12 @@ import {
   SelectValue,
 } from './ui/select';
 import { getDeviceLabelFromCache } from '../config/deviceLabels';
+import { getCarrierColor, groupCarrierNames, resolveCarrier } from '../config/carriers';
+import { getSeenCarrierNames, getSeenOperatorNames } from '../services/statsService';
+import { toCsvHeader, toCsvRows, type CsvColumn } from '../utils/csv';
+import { openFileSink } from '../utils/fileSink';
+import { createXlsxWriter, XLSX_TYPE, type XlsxColumn } from '../utils/xlsx';
+import { openPrintWindow, printReport } from '../utils/printReport';
 
 interface ExportModalProps {
   isOpen: boolean;
@@ -31,6 +50,209 @@ interface DateRange {
   endDate: Date | null;
 }
 
+interface TrackingItem {
+  tracking: string;
+  carrierId: string;
+  carrier: string;
+  timestamp: string | null;
+  deviceId: string | null;
+  // Label of the device, or its ID when it has none
+  device: string;
+  username: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface ExportProgress {
+  // Rows written to the file so far
+  exported: number;
+  // Records read, before the carrier and operator filters
+  read: number;
+  // Records in the date range, once the count has come back
+  total: number | null;
+}
+
+// Totals of everything exported, for the XLSX summary sheet and the PDF report
+interface ExportSummary {
+  exported: number;
+  carrierCounts: Map<string, number>;
+  trackingNumbers: Set<string>;
+  devices: Set<string>;
+  operators: Set<string>;
+}
+
+// Where one export goes: a file written a page at a time, or a printed report
+interface ExportTarget {
+  write(items: TrackingItem[]): Promise<void>;
+  finish(summary: ExportSummary): Promise<void>;
+  abort(): Promise<void>;
+}
+
+type ExportFormat = 'csv' | 'xlsx' | 'ndjson' | 'pdf';
+
+const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'csv', label: 'CSV', description: 'Plain comma-separated values' },
+  { id: 'xlsx', label: 'Excel (XLSX)', description: 'Packages and a carrier summary sheet' },
+  { id: 'ndjson', label: 'NDJSON', description: 'One JSON record per line, for data pipelines' },
+  { id: 'pdf', label: 'PDF Report', description: 'Totals, carrier chart and package table to print or save as PDF' },
+];
+
+const EXPORT_FILE_TYPES: Record<Exclude<ExportFormat, 'pdf'>, { type: string; description: string; extension: string }> = {
+  csv: { type: 'text/csv', description: 'CSV file', extension: '.csv' },
+  xlsx: { type: XLSX_TYPE, description: 'Excel workbook', extension: '.xlsx' },
+  ndjson: { type: 'application/x-ndjson', description: 'NDJSON file', extension: '.ndjson' },
+};
+
+// Records read per query; the file is written after each page
+const EXPORT_PAGE_SIZE = 1000;
+
+// Most packages listed in the PDF report's table; its totals still cover every package
+const REPORT_TABLE_LIMIT = 2000;
+
+const formatScanTime = (timestamp: string | null, pattern: string): string => {
+  const date = timestamp ? new Date(timestamp) : null;
+  return date && !Number.isNaN(date.getTime()) ? format(date, pattern) : timestamp ?? 'N/A';
+};
+
+const toCoordinate = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const coordinate = Number(value);
+  return Number.isFinite(coordinate) ? coordinate : null;
+};
+
+const CSV_COLUMNS: CsvColumn<TrackingItem>[] = [
+  { header: 'Tracking Number', value: item => item.tracking || 'Unknown' },
+  { header: 'Carrier', value: item => item.carrier },
+  { header: 'Timestamp', value: item => item.timestamp ?? 'N/A' },
+  { header: 'Device ID', value: item => item.device },
+  { header: 'Username', value: item => item.username ?? 'N/A' },
+  { header: 'Latitude', value: item => item.latitude ?? 'N/A' },
+  { header: 'Longitude', value: item => item.longitude ?? 'N/A' },
+];
+
+// Tracking numbers are a text column so long numbers aren't shown in scientific notation
+const XLSX_COLUMNS: XlsxColumn<TrackingItem>[] = [
+  { header: 'Tracking Number', value: item => item.tracking, text: true, width: 28 },
+  { header: 'Carrier', value: item => item.carrier, width: 18 },
+  { header: 'Timestamp', value: item => item.timestamp ? new Date(item.timestamp) : null, width: 20 },
+  { header: 'Device', value: item => item.device, width: 20 },
+  { header: 'Username', value: item => item.username, width: 16 },
+  { header: 'Latitude', value: item => item.latitude, width: 12 },
+  { header: 'Longitude', value: item => item.longitude, width: 12 },
+];
+
+const XLSX_SUMMARY_COLUMNS: XlsxColumn<{ carrier: string; count: number; share: number }>[] = [
+  { header: 'Carrier', value: row => row.carrier, width: 24 },
+  { header: 'Packages', value: row => row.count, width: 12 },
+  { header: 'Share (%)', value: row => row.share, width: 12 },
+];
+
+const REPORT_HEADERS = ['Tracking Number', 'Carrier', 'Timestamp', 'Device', 'Operator'];
+
+/** Carrier counts, largest first */
+const sortedCarrierCounts = (summary: ExportSummary): [string, number][] =>
+  Array.from(summary.carrierCounts.entries()).sort((a, b) => b[1] - a[1]);
+
+/**
+ * Open where an export will go. Must be called straight from the click, since
+ * both the save dialog and the report window need it.
+ * @returns The target, or null when the user cancelled the save dialog
+ */
+const openExportTarget = async (
+  exportFormat: ExportFormat,
+  filename: string,
+  reportSubtitle: string,
+  days: number
+): Promise<ExportTarget | null> => {
+  if (exportFormat === 'pdf') {
+    const win = openPrintWindow();
+    if (!win) throw new Error('Allow pop-ups for this site to print the report');
+
+    const rows: TrackingItem[] = [];
+    return {
+      async write(items) {
+        if (rows.length < REPORT_TABLE_LIMIT) rows.push(...items.slice(0, REPORT_TABLE_LIMIT - rows.length));
+      },
+      async finish(summary) {
+        printReport(win, {
+          title: 'Tracking Report',
+          subtitle: reportSubtitle,
+          kpis: [
+            { label: 'Total Scans', value: summary.exported.toLocaleString() },
+            { label: 'Unique Packages', value: summary.trackingNumbers.size.toLocaleString() },
+            { label: 'Average Daily Scans', value: Math.round(summary.exported / days).toLocaleString() },
+            { label: 'Carriers', value: summary.carrierCounts.size.toLocaleString() },
+            { label: 'Devices', value: summary.devices.size.toLocaleString() },
+            { label: 'Operators', value: summary.operators.size.toLocaleString() },
+          ],
+          chartTitle: 'Carrier Breakdown',
+          bars: sortedCarrierCounts(summary).map(([carrier, count]) => ({
+            label: carrier,
+            value: count,
+            color: getCarrierColor(carrier),
+          })),
+          tableTitle: 'Packages',
+          headers: REPORT_HEADERS,
+          rows: rows.map(item => [
+            item.tracking || 'Unknown',
+            item.carrier,
+            formatScanTime(item.timestamp, 'MMM d, yyyy HH:mm:ss'),
+            item.device,
+            item.username ?? 'N/A',
+          ]),
+          tableNote: summary.exported > rows.length
+            ? `Showing the first ${rows.length.toLocaleString()} of ${summary.exported.toLocaleString()} packages. Export CSV or XLSX for the full list.`
+            : undefined,
+        });
+      },
+      async abort() {
+        win.close();
+      },
+    };
+  }
+
+  const sink = await openFileSink({ filename, ...EXPORT_FILE_TYPES[exportFormat] });
+  if (!sink) return null;
+
+  if (exportFormat === 'xlsx') {
+    // Each page of packages goes straight to the file; the summary sheet is
+    // written last, once the totals are known, but keeps the first tab
+    const workbook = createXlsxWriter(chunk => sink.write(chunk));
+    const packagesSheet = await workbook.addSheet('Packages', XLSX_COLUMNS);
+    return {
+      write: items => packagesSheet.addRows(items),
+      async finish(summary) {
+        const summarySheet = await workbook.addSheet('Summary', XLSX_SUMMARY_COLUMNS, 0);
+        await summarySheet.addRows([
+          ...sortedCarrierCounts(summary).map(([carrier, count]) => ({
+            carrier,
+            count,
+            share: Math.round((count / summary.exported) * 1000) / 10,
+          })),
+          { carrier: 'Total', count: summary.exported, share: 100 },
+        ]);
+        await workbook.close();
+        await sink.close();
+      },
+      abort: () => sink.abort(),
+    };
+  }
+
+  if (exportFormat === 'csv') await sink.write(toCsvHeader(CSV_COLUMNS));
+  return {
+    async write(items) {
+      if (!items.length) return;
+      await sink.write(exportFormat === 'csv'
+        ? toCsvRows(CSV_COLUMNS, items)
+        : items.map(item => JSON.stringify(item) + '\n').join(''));
+    },
+    async finish() {
+      await sink.close();
+    },
+    abort: () => sink.abort(),
+  };
+};
+
 const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
   // State for date range picker
   const [dateRange, setDateRange] = useState<DateRange>({
@@ -38,11 +260,16 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
     endDate: null
   });
 
-  // State for carrier filter
+  // State for carrier filter (canonical carrier ID)
   const [selectedCarrier, setSelectedCarrier] = useState<string>("all_carriers");
 
-  // State for available carriers
-  const [availableCarriers, setAvailableCarriers] = useState<string[]>([]);
+  // State for available carriers (raw values, grouped by canonical carrier on render)
+  const [rawCarrierNames, setRawCarrierNames] = useState<string[]>([]);
+  const availableCarriers = groupCarrierNames(rawCarrierNames);
+
+  // State for operator filter (username of whoever scanned)
+  const [selectedOperator, setSelectedOperator] = useState<string>("all_operators");
+  const [availableOperators, setAvailableOperators] = useState<string[]>([]);
 
   // Error state for validation
   const [errors, setErrors] = useState<{
@@ -52,6 +279,14 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
   // Loading state
   const [loading, setLoading] = useState<boolean>(false);
 
+  // Progress of a running export, and whether it has been asked to stop
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const cancelRef = useRef(false);
+
+  // Output format; kept between exports
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const formatLabel = EXPORT_FORMATS.find(option => option.id === exportFormat)?.label ?? 'CSV';
+
   // Function to handle date range changes
   // Now handled directly by DateRangePicker component
 
@@ -63,48 +298,23 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
   // Function to fetch all available carriers for filter dropdown
   const fetchAllCarriers = async () => {
     try {
-      const db = getFirestore();
-      const packagesCollection = collection(db, 'packages');
-      const packagesSnapshot = await getDocs(packagesCollection);
-
-      const carriers = new Set<string>();
-      const rawCarriers = new Set<string>();
-
-      packagesSnapshot.forEach(doc => {
-        const data = doc.data();
-
-        // Extract carrier name
-        let carrierName: string;
-        if (typeof data.carrier === 'string') {
-          carrierName = data.carrier;
-        } else if (data.carrier && typeof data.carrier === 'object') {
-          carrierName = (data.carrier as { name?: string }).name || 'Unknown';
-        } else {
-          carrierName = 'Unknown';
-        }
-
-        // Store the exact carrier name as it appears in the database
-        rawCarriers.add(carrierName);
-
-        // Also extract base carrier names (e.g., "FedEx Ground" from "FedEx Ground/Home")
-        // This helps with filtering
-        const baseCarrierMatch = carrierName.match(/^([^/]+)/);
-        if (baseCarrierMatch && baseCarrierMatch[1]) {
-          carriers.add(baseCarrierMatch[1].trim());
-        } else {
-          carriers.add(carrierName);
-        }
-      });
-
-      // Use raw carriers for the dropdown to show exact values
-      setAvailableCarriers(Array.from(rawCarriers).sort());
-      console.log('Available carriers:', Array.from(rawCarriers));
+      // Raw carrier names come from the daily rollups, grouped by canonical carrier
+      setRawCarrierNames(await getSeenCarrierNames());
     } catch (err) {
       console.error('Error fetching carriers:', err);
       toast.error(`Failed to load carriers: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
+  // Function to fetch the operators seen in the daily rollups
+  const fetchAllOperators = async () => {
+    try {
+      setAvailableOperators(await getSeenOperatorNames());
+    } catch (err) {
+      console.error('Error fetching operators:', err);
+    }
+  };
+
   // Function to reset form state
   const resetForm = () => {
     setDateRange({
@@ -112,6 +322,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
       endDate: null
     });
     setSelectedCarrier('all_carriers');
+    setSelectedOperator('all_operators');
     setErrors({});
   };
 
@@ -119,12 +330,18 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
   useEffect(() => {
     if (isOpen) {
       fetchAllCarriers();
+      fetchAllOperators();
       resetForm();
     }
   }, [isOpen]);
 
-  // Function to export data as CSV
-  const handleExportCSV = async () => {
+  // Asks a running export to stop after the page it is reading
+  const handleCancelExport = () => {
+    cancelRef.current = true;
+  };
+
+  // Function to export data in the chosen format, read a page at a time and written as it goes
+  const handleExport = async () => {
     // Validate date range
     if (!dateRange.startDate || !dateRange.endDate) {
       setErrors({
@@ -134,224 +351,163 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
       return;
     }
 
+    const carrierName = availableCarriers.find(option => option.carrier.id === selectedCarrier)?.carrier.name;
+    const reportSubtitle = [
+      `${format(dateRange.startDate, 'MMM d, yyyy')} – ${format(dateRange.endDate, 'MMM d, yyyy')}`,
+      selectedCarrier !== 'all_carriers' ? `Carrier: ${carrierName || selectedCarrier}` : null,
+      selectedOperator !== 'all_operators' ? `Operator: ${selectedOperator}` : null,
+    ].filter(Boolean).join(' · ');
+    const days = differenceInCalendarDays(dateRange.endDate, dateRange.startDate) + 1;
+
+    // Opened before anything else is awaited, while the click still allows a save dialog or pop-up
+    let target: ExportTarget | null;
+    try {
+      const extension = exportFormat === 'pdf' ? '' : EXPORT_FILE_TYPES[exportFormat].extension;
+      target = await openExportTarget(
+        exportFormat,
+        `tracking_export_${format(new Date(), 'yyyy-MM-dd')}${extension}`,
+        reportSubtitle,
+        days
+      );
+    } catch (err) {
+      console.error('Error opening export file:', err);
+      toast.error(`Failed to export ${formatLabel}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return;
+    }
+    if (!target) return;
+
     setLoading(true);
     setErrors({});
+    setProgress({ exported: 0, read: 0, total: null });
+    cancelRef.current = false;
 
     try {
       const db = getFirestore();
       const packagesCollection = collection(db, 'packages');
 
-      // Build query constraints
-      const queryConstraints: QueryConstraint[] = [];
-
-      // Apply date range filter if selected
-      if (dateRange.startDate) {
-        // Use 'yyyyMMdd' format without hyphens to match the database structure
-        const startDateStr = format(dateRange.startDate, 'yyyyMMdd');
-        console.log('Using start date filter:', startDateStr);
-        queryConstraints.push(where('dateYmd', '>=', startDateStr));
-      }
-
-      if (dateRange.endDate) {
-        // Use 'yyyyMMdd' format without hyphens to match the database structure
-        const endDateStr = format(dateRange.endDate, 'yyyyMMdd');
-        console.log('Using end date filter:', endDateStr);
-        queryConstraints.push(where('dateYmd', '<=', endDateStr));
-      }
-
-      // Apply carrier filter if selected
-      // Instead of exact match, we'll filter on the client side
-      // This gives us more flexibility with carrier name formats
-      if (selectedCarrier && selectedCarrier !== 'all_carriers') {
-        console.log('Will filter by carrier (client-side):', selectedCarrier);
-      }
+      // Use 'yyyyMMdd' format without hyphens to match the database structure
+      const queryConstraints: QueryConstraint[] = [
+        where('dateYmd', '>=', format(dateRange.startDate, 'yyyyMMdd')),
+        where('dateYmd', '<=', format(dateRange.endDate, 'yyyyMMdd')),
+        orderBy('timestamp', 'desc'),
+      ];
+
+      // The total only drives the progress bar, so the export doesn't wait for it
+      getCountFromServer(query(packagesCollection, ...queryConstraints))
+        .then(snapshot => setProgress(current => current && { ...current, total: snapshot.data().count }))
+        .catch(err => console.error('Error counting export records:', err));
+
+      const summary: ExportSummary = {
+        exported: 0,
+        carrierCounts: new Map(),
+        trackingNumbers: new Set(),
+        devices: new Set(),
+        operators: new Set(),
+      };
+      let read = 0;
+      let cursor: QueryDocumentSnapshot<DocumentData> | undefined;
+      while (!cancelRef.current) {
+        const pageConstraints = cursor
+          ? [...queryConstraints, startAfter(cursor), limit(EXPORT_PAGE_SIZE)]
+          : [...queryConstraints, limit(EXPORT_PAGE_SIZE)];
+        const snapshot = await getDocs(query(packagesCollection, ...pageConstraints));
+        if (cancelRef.current) break;
+
+        const items: TrackingItem[] = [];
+        snapshot.forEach(doc => {
+          const data = doc.data();
+
+          // Resolve the canonical carrier so the filter matches every spelling
+          const carrier = resolveCarrier(data.carrier);
+
+          if (selectedCarrier && selectedCarrier !== 'all_carriers' && carrier.id !== selectedCarrier) {
+            return;
+          }
 
-      // Apply sorting
-      queryConstraints.push(orderBy('timestamp', 'desc'));
+          // Operator is filtered here too, so no extra composite index is needed
+          if (selectedOperator !== 'all_operators' && data.username !== selectedOperator) {
+            return;
+          }
 
-      // Execute query
-      console.log('Date range:', dateRange);
-      console.log('Selected carrier:', selectedCarrier);
+          items.push({
+            tracking: data.tracking || '',
+            carrierId: carrier.id,
+            carrier: carrier.name,
+            timestamp: data.timestamp || null,
+            deviceId: data.deviceId || null,
+            device: getDeviceLabelFromCache(data.deviceId),
+            username: data.username || null,
+            latitude: toCoordinate(data.latitude),
+            longitude: toCoordinate(data.longitude),
+          });
+        });
 
-      // Log all query constraints for debugging
-      queryConstraints.forEach((constraint, index) => {
-        console.log(`Constraint ${index}:`, constraint);
-      });
+        await target.write(items);
+        items.forEach(item => {
+          summary.carrierCounts.set(item.carrier, (summary.carrierCounts.get(item.carrier) ?? 0) + 1);
+          if (item.tracking) summary.trackingNumbers.add(item.tracking);
+          if (item.deviceId) summary.devices.add(item.deviceId);
+          if (item.username) summary.operators.add(item.username);
+        });
+        summary.exported += items.length;
+        read += snapshot.size;
+        setProgress(current => current && { ...current, exported: summary.exported, read });
 
-      // For testing, let's try a simple query first to see if we get any data
-      let q;
-      if (queryConstraints.length > 0) {
-        q = query(packagesCollection, ...queryConstraints);
-        console.log('Using query with constraints');
-      } else {
-        // Fallback to a simple query to verify data access
-        q = query(packagesCollection, orderBy('timestamp', 'desc'));
-        console.log('Using simple query without filters');
+        if (snapshot.size < EXPORT_PAGE_SIZE) break;
+        cursor = snapshot.docs[snapshot.docs.length - 1];
       }
 
-      const querySnapshot = await getDocs(q);
-      console.log('Query returned items:', querySnapshot.size);
-
-      // Log the first few documents to see what we're getting
-      let count = 0;
-      querySnapshot.forEach(doc => {
-        if (count < 3) {
-          console.log('Document data:', doc.id, doc.data());
-          count++;
-        }
-      });
-
-      // Process the results
-      interface TrackingItem {
-        // id: string;
-        tracking: string;
-        carrier: string;
-        timestamp: string | number | Date;
-        deviceId: string;
-        latitude: string;
-        longitude: string;
-        // date: string;
-        // time: string;
+      if (cancelRef.current) {
+        await target.abort();
+        toast(`Export cancelled after ${summary.exported} records`);
+        return;
       }
 
-      const items: TrackingItem[] = [];
-
-      querySnapshot.forEach(doc => {
-        const data = doc.data();
-        console.log('Processing doc:', doc.id, 'dateYmd:', data.dateYmd);
-
-        // Check date filtering
-        if (dateRange.startDate || dateRange.endDate) {
-          const docDate = data.dateYmd;
-          if (dateRange.startDate) {
-            const startDateStr = format(dateRange.startDate, 'yyyyMMdd');
-            if (docDate < startDateStr) {
-              console.log('Skipping doc due to start date filter:', docDate, '<', startDateStr);
-              return;
-            }
-          }
-          if (dateRange.endDate) {
-            const endDateStr = format(dateRange.endDate, 'yyyyMMdd');
-            if (docDate > endDateStr) {
-              console.log('Skipping doc due to end date filter:', docDate, '>', endDateStr);
-              return;
-            }
-          }
-        }
-
-        // Extract carrier name
-        let carrierName: string;
-        if (typeof data.carrier === 'string') {
-          carrierName = data.carrier;
-        } else if (data.carrier && typeof data.carrier === 'object') {
-          carrierName = (data.carrier as { name?: string }).name || 'Unknown';
-        } else {
-          carrierName = 'Unknown';
-        }
-
-        // Re-enable client-side filtering for carrier
-        if (selectedCarrier && selectedCarrier !== 'all_carriers' && !carrierName.includes(selectedCarrier)) {
-          console.log('Skipping item due to carrier mismatch:', carrierName, 'Selected:', selectedCarrier);
-          return;
-        }
-
-        // Log carrier matches for debugging
-        if (selectedCarrier) {
-          console.log('Including item with carrier:', carrierName, 'Selected:', selectedCarrier);
-        }
-
-        // // Format date and time
-        // let formattedDate = '';
-        // let formattedTime = '';
-
-        // if (data.timestamp) {
-        //   try {
-        //     const date = new Date(data.timestamp);
-        //     // formattedDate = format(date, 'MMM dd, yyyy');
-        //     // formattedTime = format(date, 'hh:mm a');
-        //   } catch (e) {
-        //     console.error('Error parsing date:', e);
-        //   }
-        // }
-
-        items.push({
-          // id: doc.id,
-          tracking: data.tracking || 'Unknown',
-          carrier: carrierName,
-          timestamp: data.timestamp || 'N/A',
-          deviceId: getDeviceLabelFromCache(data.deviceId),
-          latitude: data.latitude?.toString() || 'N/A',
-          longitude: data.longitude?.toString() || 'N/A',
-          // username: data.username || 'N/A',
-          // date: formattedDate,
-          // time: formattedTime
-        });
-      });
-
       // Check if we found any items
-      if (items.length === 0) {
+      if (summary.exported === 0) {
+        await target.abort();
         let errorMessage = 'No tracking records found';
         if (selectedCarrier && selectedCarrier !== 'all_carriers') {
-          errorMessage += ` for carrier "${selectedCarrier}"`;
+          errorMessage += ` for carrier "${carrierName || selectedCarrier}"`;
         }
-        if (dateRange.startDate || dateRange.endDate) {
-          errorMessage += ' in the selected date range';
+        if (selectedOperator !== 'all_operators') {
+          errorMessage += ` by operator "${selectedOperator}"`;
         }
+        errorMessage += ' in the selected date range';
         toast.error(errorMessage);
         return;
       }
 
-      // Generate CSV content with proper escaping and formatting
-      // Use quotes around all values to ensure proper Excel handling
-      let csvContent = 'Tracking Number,Carrier,Timestamp,Device ID,Latitude,Longitude\n';
-
-      items.forEach(item => {
-        // Use Excel formula format ="value" to force Excel to treat tracking number as text
-        // This prevents Excel from converting large numbers to scientific notation
-        const trackingNumber = `=\"${item.tracking}\"`;
-        const carrier = `"${item.carrier.replace(/"/g, '""')}"`;
-        const timestamp = `"${item.timestamp}"`;
-        const deviceId = `"${item.deviceId}"`;
-        const latitude = `"${item.latitude}"`;
-        const longitude = `"${item.longitude}"`;
-
-        csvContent += `${trackingNumber},${carrier},${timestamp},${deviceId},${latitude},${longitude}\n`;
-      });
-
-      // Create a blob and download the CSV
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.setAttribute('href', url);
-      link.setAttribute('download', `tracking_export_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      await target.finish(summary);
 
       // Show success toast notification
-      toast.success(`Successfully exported ${items.length} tracking records to CSV!`);
+      toast.success(exportFormat === 'pdf'
+        ? `Report ready with ${summary.exported} tracking records`
+        : `Successfully exported ${summary.exported} tracking records to ${formatLabel}!`);
 
       // Close modal after successful export
       onClose();
     } catch (err) {
-      console.error('Error exporting CSV:', err);
-      // Show detailed error toast notification
-      const errorMessage = `Failed to export CSV: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      console.error(`Error exporting ${formatLabel}:`, err);
+      await target.abort().catch(abortErr => console.error('Error discarding export:', abortErr));
 
       // Add query details to console for debugging
       console.error('Error details - Date range:', dateRange);
       console.error('Error details - Selected carrier:', selectedCarrier);
 
-      // Show error toast
-      toast.error(errorMessage);
+      // Show detailed error toast notification
+      toast.error(`Failed to export ${formatLabel}: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
       setLoading(false);
+      setProgress(null);
     }
   };
 
   // Handle dialog close
   const handleDialogClose = (open: boolean) => {
     if (!open) {
+      // Closing the dialog stops a running export
+      cancelRef.current = true;
       resetForm();
       onClose();
     }
@@ -361,9 +517,9 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
     <Dialog open={isOpen} onOpenChange={handleDialogClose}>
       <DialogContent className="sm:max-w-md p-6">
         <DialogHeader className="mb-1">
-          <DialogTitle className="text-2xl font-bold">Export Tracking Data (CSV)</DialogTitle>
+          <DialogTitle className="text-2xl font-bold">Export Tracking Data</DialogTitle>
           <DialogDescription className="text-base mt-2">
-            Generate a CSV file with tracking data based on the selected filters. Date range is mandatory.
+            Export tracking data based on the selected filters as a file or a printable report. Date range is mandatory.
           </DialogDescription>
         </DialogHeader>
 
@@ -397,6 +553,28 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
             )}
           </div>
 
+          {/* Format Selection */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label htmlFor="export-format" className="text-base font-medium">
+                Format
+              </label>
+              <span className="text-xs text-muted-foreground">
+                {EXPORT_FORMATS.find(option => option.id === exportFormat)?.description}
+              </span>
+            </div>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)} disabled={loading}>
+              <SelectTrigger id="export-format" className="w-full h-11 text-base focus:ring-2 focus:ring-gray-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FORMATS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Carrier Selection */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -416,25 +594,70 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all_carriers">All Carriers</SelectItem>
-                {availableCarriers.map(carrier => (
-                  <SelectItem key={carrier} value={carrier}>{carrier}</SelectItem>
+                {availableCarriers.map(option => (
+                  <SelectItem key={option.carrier.id} value={option.carrier.id}>{option.carrier.name}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+
+          {/* Operator Selection */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label htmlFor="operator" className="text-base font-medium">
+                Operator
+              </label>
+              <span className="text-xs text-muted-foreground">
+                Filter by who scanned
+              </span>
+            </div>
+            <Select value={selectedOperator} onValueChange={setSelectedOperator}>
+              <SelectTrigger className="w-full h-11 text-base focus:ring-2 focus:ring-gray-200">
+                <SelectValue placeholder="All Operators" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all_operators">All Operators</SelectItem>
+                {availableOperators.map(username => (
+                  <SelectItem key={username} value={username}>{username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {progress && (
+            <div className="space-y-2" aria-live="polite">
+              <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+                <div
+                  className={`h-full bg-indigo-600 transition-all ${progress.total === null ? 'w-full animate-pulse opacity-40' : ''}`}
+                  style={progress.total !== null
+                    ? { width: `${progress.total ? Math.min(100, (progress.read / progress.total) * 100) : 100}%` }
+                    : undefined}
+                />
+              </div>
+              <p className="text-sm text-gray-700">
+                Exported <span className="font-medium">{progress.exported.toLocaleString()}</span> rows
+                {' '}({progress.read.toLocaleString()}
+                {progress.total !== null && ` of ${progress.total.toLocaleString()}`} records read)
+              </p>
+            </div>
+          )}
         </div>
 
         <DialogFooter className="flex justify-end gap-2">
           <Button
             variant="outline"
             onClick={() => {
+              if (loading) {
+                handleCancelExport();
+                return;
+              }
               resetForm();
               onClose();
             }}
           >
-            Cancel
+            {loading ? 'Cancel Export' : 'Cancel'}
           </Button>
-          <Button onClick={handleExportCSV} disabled={loading}>
+          <Button onClick={handleExport} disabled={loading}>
             {loading ? (
               <>
                 <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -448,7 +671,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose }) => {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M6 2a2 2 0 00-2 2v12a2 2 0 002 2h8a2 2 0 002-2V7.414A2 2 0 0015.414 6L12 2.586A2 2 0 0010.586 2H6zm5 6a1 1 0 10-2 0v3.586l-1.293-1.293a1 1 0 10-1.414 1.414l3 3a1 1 0 001.414 0l3-3a1 1 0 00-1.414-1.414L11 11.586V8z" clipRule="evenodd" />
                 </svg>
-                Export CSV
+                {exportFormat === 'pdf' ? 'Print Report' : `Export ${formatLabel}`}
               </>
             )}
           </Button>
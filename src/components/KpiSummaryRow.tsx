@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { fetchKpiData } from '../services/firestoreService';
+import { fetchKpiData, toKpiData } from '../services/firestoreService';
 import CarrierBreakdown from './CarrierBreakdown';
-import { getFirestore, collection, onSnapshot } from 'firebase/firestore';
+import { monthlyStatsQuery, subscribeToDashboardStats } from '../services/statsService';
+import { useCarrierRegistry } from '../hooks/useCarrierRegistry';
 
 interface KpiCardProps {
   title: string;
@@ -21,6 +22,8 @@ interface KpiData {
   totalScansThisMonth: number;
   // activeCarriers: number;
   averageDailyScans: number;
+  invalidScansThisMonth: number;
+  carrierMismatchesThisMonth: number;
   lastSyncTime: string;
   todayCarrierBreakdown: CarrierBreakdown;
   monthCarrierBreakdown: CarrierBreakdown;
@@ -63,29 +66,28 @@ const KpiSummaryRow = () => {
     totalScansThisMonth: 0,
     // activeCarriers: 0,
     averageDailyScans: 0,
+    invalidScansThisMonth: 0,
+    carrierMismatchesThisMonth: 0,
     lastSyncTime: '',
     todayCarrierBreakdown: {},
     monthCarrierBreakdown: {}
   });
   const [isLoading, setIsLoading] = useState(true);
+  const { version: carrierRegistryVersion } = useCarrierRegistry();
 
   useEffect(() => {
     setIsLoading(true);
     
-    // Initialize Firestore
-    const db = getFirestore();
-    const packagesCollection = collection(db, 'packages');
-    
-    // Set up real-time listener
-    const unsubscribe = onSnapshot(
-      packagesCollection,
-      async () => {
+    // Set up real-time listener on this month's daily rollups, which change
+    // with every scan without having to read the packages themselves
+    const unsubscribe = subscribeToDashboardStats(
+      monthlyStatsQuery(new Date()),
+      (monthStats) => {
         try {
           console.log('Firebase data changed, updating KPI data...');
           
-          // Fetch updated KPI data whenever the collection changes
-          const firestoreData = await fetchKpiData();
-          setKpiData(firestoreData);
+          // Work the KPIs out from the rollups the listener delivered
+          setKpiData(toKpiData(monthStats));
           setIsLoading(false);
         } catch (error) {
           console.error('Error processing real-time KPI data update:', error);
@@ -96,6 +98,8 @@ const KpiSummaryRow = () => {
             totalScansThisMonth: 4215,
             // activeCarriers: 3,
             averageDailyScans: 140,
+            invalidScansThisMonth: 12,
+            carrierMismatchesThisMonth: 4,
             lastSyncTime: format(new Date(), 'HH:mm:ss'),
             todayCarrierBreakdown: {
               'UPS': 300,
@@ -120,7 +124,7 @@ const KpiSummaryRow = () => {
     
     // Clean up the listener when the component unmounts
     return () => unsubscribe();
-  }, []);
+  }, [carrierRegistryVersion]); // Re-subscribe so carrier mapping changes are reflected immediately
 
   // Format numbers with commas for thousands
   const formatNumber = (num: number): string => {
@@ -177,7 +181,7 @@ const KpiSummaryRow = () => {
           </button>
         </div>
       </div>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
         <KpiCard
           title="Total Scans Today"
           value={formatNumber(kpiData.totalScansToday)}
@@ -205,6 +209,20 @@ const KpiSummaryRow = () => {
           isLoading={isLoading}
         />
         
+        <KpiCard
+          title="Invalid Tracking This Month"
+          value={formatNumber(kpiData.invalidScansThisMonth)}
+          description="Scans whose tracking number fails its carrier's check digit"
+          isLoading={isLoading}
+        />
+        
+        <KpiCard
+          title="Carrier Mismatches This Month"
+          value={formatNumber(kpiData.carrierMismatchesThisMonth)}
+          description="Scans whose tracking number belongs to a different carrier"
+          isLoading={isLoading}
+        />
+        
         <KpiCard
           title="Last Sync Time"
           value={kpiData.lastSyncTime}
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+export interface MultiSelectOption {
+  value: string;
+  label: string;
+}
+
+interface MultiSelectFilterProps {
+  id?: string;
+  /** Plural noun for the trigger, e.g. "Carriers" */
+  label: string;
+  options: MultiSelectOption[];
+  /** Chosen values; none chosen means no filter */
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Filter dropdown with a checkbox per option, a search box and select-all
+const MultiSelectFilter = ({ id, label, options, selected, onChange }: MultiSelectFilterProps) => {
+  const [search, setSearch] = useState('');
+
+  const visible = options.filter(option => option.label.toLowerCase().includes(search.trim().toLowerCase()));
+  const allVisibleSelected = visible.length > 0 && visible.every(option => selected.includes(option.value));
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+  };
+
+  // Select-all applies to the options the search shows
+  const toggleAllVisible = () => {
+    const visibleValues = visible.map(option => option.value);
+    onChange(allVisibleSelected
+      ? selected.filter(value => !visibleValues.includes(value))
+      : [...selected, ...visibleValues.filter(value => !selected.includes(value))]);
+  };
+
+  const summary = selected.length === 0
+    ? `All ${label}`
+    : selected.length === 1
+      ? options.find(option => option.value === selected[0])?.label ?? selected[0]
+      : `${selected.length} ${label.toLowerCase()}`;
+
+  return (
+    <Popover onOpenChange={open => { if (!open) setSearch(''); }}>
+      <PopoverTrigger asChild>
+        <button
+          id={id}
+          className="flex w-full h-[38px] items-center justify-between gap-2 rounded-md border border-input bg-transparent px-3 py-2 text-sm whitespace-nowrap shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        >
+          <span className="truncate">{summary}</span>
+          <svg className="h-4 w-4 opacity-50 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2">
+        <Input
+          placeholder={`Search ${label.toLowerCase()}`}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="mb-2"
+        />
+        <div className="flex items-center justify-between px-2 py-1 border-b border-gray-100 mb-1">
+          <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} disabled={!visible.length} />
+            Select all
+          </label>
+          {selected.length > 0 && (
+            <button onClick={() => onChange([])} className="text-xs text-indigo-600 hover:text-indigo-800">
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          {visible.length === 0 ? (
+            <p className="px-2 py-1 text-sm text-gray-400">No matches</p>
+          ) : (
+            visible.map(option => (
+              <label key={option.value} className="flex items-center gap-2 px-2 py-1.5 text-sm rounded hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option.value)}
+                  onChange={() => toggle(option.value)}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MultiSelectFilter;
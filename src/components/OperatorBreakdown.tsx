@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { monthlyStatsQuery, subscribeToDashboardStats, UNKNOWN_OPERATOR } from '../services/statsService';
+
+interface OperatorBreakdownProps {
+  /** Currently filtered operator, highlighted in the list */
+  selected?: string;
+  onSelect: (username: string) => void;
+}
+
+interface OperatorCounts {
+  username: string;
+  today: number;
+  month: number;
+}
+
+// Scans per operator today and this month, from the daily rollups
+const OperatorBreakdown = ({ selected, onSelect }: OperatorBreakdownProps) => {
+  const [operators, setOperators] = useState<OperatorCounts[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Counted like the KPIs, so flagged duplicates are left out when they are
+    const unsubscribe = subscribeToDashboardStats(
+      monthlyStatsQuery(new Date()),
+      (days) => {
+        const todayYmd = format(new Date(), 'yyyyMMdd');
+        const counts = new Map<string, OperatorCounts>();
+        days.forEach(stats => {
+          Object.entries(stats.operators).forEach(([username, count]) => {
+            if (!count) return;
+            const entry = counts.get(username) || { username, today: 0, month: 0 };
+            entry.month += count;
+            if (stats.dateYmd === todayYmd) entry.today += count;
+            counts.set(username, entry);
+          });
+        });
+        setOperators(Array.from(counts.values()).sort((a, b) => b.month - a.month));
+        setIsLoading(false);
+      },
+      () => setIsLoading(false)
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const maxMonth = Math.max(1, ...operators.map(operator => operator.month));
+
+  return (
+    <div className="mb-6 bg-white p-6 rounded-lg shadow-md border border-gray-100">
+      <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">Scans by Operator</h2>
+      {isLoading ? (
+        <div className="animate-pulse h-8 bg-gray-200 rounded w-3/4"></div>
+      ) : operators.length === 0 ? (
+        <p className="text-xs text-gray-500">No data available</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500">
+              <th className="text-left font-medium pb-2">Operator</th>
+              <th className="text-right font-medium pb-2 w-20">Today</th>
+              <th className="text-left font-medium pb-2 pl-4">This Month</th>
+            </tr>
+          </thead>
+          <tbody>
+            {operators.map(operator => (
+              <tr key={operator.username} className={operator.username === selected ? 'bg-indigo-50' : ''}>
+                <td className="py-1">
+                  {operator.username === UNKNOWN_OPERATOR ? (
+                    <span className="text-gray-400">No username</span>
+                  ) : (
+                    <button
+                      onClick={() => onSelect(operator.username)}
+                      className="text-indigo-600 hover:text-indigo-800 hover:underline"
+                      title="Show this operator's scans"
+                    >
+                      {operator.username}
+                    </button>
+                  )}
+                </td>
+                <td className="py-1 text-right text-gray-900">{operator.today}</td>
+                <td className="py-1 pl-4">
+                  <div className="flex items-center">
+                    <div className="flex-grow bg-gray-200 rounded-full h-1.5 mr-2">
+                      <div
+                        className="h-1.5 rounded-full bg-indigo-500"
+                        style={{ width: `${Math.round((operator.month / maxMonth) * 100)}%` }}
+                      ></div>
+                    </div>
+                    <span className="flex-shrink-0 w-12 text-right text-gray-500">{operator.month}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default OperatorBreakdown;
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { getCarrierName } from '../config/carriers';
+import { getDeviceLabelFromCache } from '../config/deviceLabels';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  emptyTrash,
+  getTrashRetentionDays,
+  getTrashedPackages,
+  purgePackages,
+  restorePackages,
+  setTrashRetentionDays,
+  type TrashedPackage,
+} from '../services/trashService';
+import { getRecentDeleteJobs, undoDeleteJob, type DeleteJob } from '../services/bulkDeleteService';
+
+const PAGE_SIZE = 50;
+
+const formatYmd = (dateYmd: string): string =>
+  `${dateYmd.slice(0, 4)}-${dateYmd.slice(4, 6)}-${dateYmd.slice(6, 8)}`;
+
+const RecycleBinSection = () => {
+  const [packages, setPackages] = useState<TrashedPackage[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = useState(false);
+  const [jobs, setJobs] = useState<DeleteJob[]>([]);
+
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [retentionInput, setRetentionInput] = useState(String(DEFAULT_TRASH_RETENTION_DAYS));
+
+  const loadPage = useCallback(async (after: QueryDocumentSnapshot | null) => {
+    setIsLoading(true);
+    try {
+      const page = await getTrashedPackages(PAGE_SIZE, after);
+      setPackages(previous => (after ? [...previous, ...page.packages] : page.packages));
+      setCursor(page.cursor);
+    } catch (error) {
+      toast.error(`Error loading recycle bin: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const reload = useCallback(async () => {
+    setSelectedIds(new Set());
+    await Promise.all([
+      loadPage(null),
+      getRecentDeleteJobs().then(setJobs),
+    ]);
+  }, [loadPage]);
+
+  useEffect(() => {
+    reload();
+    getTrashRetentionDays().then(days => {
+      setRetentionDays(days);
+      setRetentionInput(String(days));
+    });
+  }, [reload]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.size === packages.length ? new Set() : new Set(packages.map(pkg => pkg.id)));
+  };
+
+  // Run a bin operation, then reload the list
+  const runAction = async (action: () => Promise<number>, describe: (count: number) => string) => {
+    try {
+      setIsWorking(true);
+      const count = await action();
+      toast.success(describe(count));
+      await reload();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestoreSelected = () =>
+    runAction(() => restorePackages([...selectedIds]), count => `Restored ${count} packages`);
+
+  const handlePurgeSelected = () => {
+    if (!window.confirm(`Permanently delete ${selectedIds.size} packages? This cannot be undone.`)) return;
+    runAction(() => purgePackages([...selectedIds]), count => `Permanently deleted ${count} packages`);
+  };
+
+  const handleEmptyBin = () => {
+    if (!window.confirm('Permanently delete every package in the recycle bin? This cannot be undone.')) return;
+    runAction(emptyTrash, count => `Permanently deleted ${count} packages`);
+  };
+
+  const handleUndoJob = (job: DeleteJob) =>
+    runAction(() => undoDeleteJob(job), count => `Restored ${count} packages deleted between ${formatYmd(job.startYmd)} and ${formatYmd(job.endYmd)}`);
+
+  const handleSaveRetention = async () => {
+    const days = Number(retentionInput);
+    try {
+      await setTrashRetentionDays(days);
+      setRetentionDays(days);
+      toast.success(`Deleted packages are now kept for ${days} days`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const restorableJobs = jobs.filter(job => job.status !== 'restored' && job.deleted > 0);
+
+  return (
+    <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Recycle Bin</h2>
+          <p className="text-sm text-gray-500">
+            Deleted packages are kept here for {retentionDays} days and then permanently deleted.
+            They do not appear in the dashboard, KPIs, charts or exports until restored.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1.5">
+            <label htmlFor="trash-retention" className="text-sm font-medium">Keep for (days)</label>
+            <Input
+              id="trash-retention"
+              type="number"
+              min={1}
+              value={retentionInput}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              className="w-[120px]"
+            />
+          </div>
+          <Button variant="outline" onClick={handleSaveRetention} disabled={Number(retentionInput) === retentionDays}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {restorableJobs.length > 0 && (
+        <div className="rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {restorableJobs.map(job => (
+            <div key={job.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-4 py-2 text-sm">
+              <span className="text-gray-700">
+                {formatYmd(job.startYmd)} to {formatYmd(job.endYmd)}: {job.deleted} packages deleted by {job.createdBy}
+                {job.createdAt && ` on ${format(job.createdAt.toDate(), 'MMM d, yyyy HH:mm')}`}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => handleUndoJob(job)} disabled={isWorking}>
+                Restore All
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleRestoreSelected} disabled={isWorking || selectedIds.size === 0}>
+          Restore Selected
+        </Button>
+        <Button variant="destructive" onClick={handlePurgeSelected} disabled={isWorking || selectedIds.size === 0}>
+          Delete Selected Permanently
+        </Button>
+        <Button variant="ghost" onClick={handleEmptyBin} disabled={isWorking || packages.length === 0}>
+          Empty Recycle Bin
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full bg-white">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="py-3 px-4 text-left">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={packages.length > 0 && selectedIds.size === packages.length}
+                  onChange={toggleAll}
+                />
+              </th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Tracking Number</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Carrier</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Scanned</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Device</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Deleted</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading && packages.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+              </tr>
+            ) : packages.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-4 px-4 text-center text-sm text-gray-500">The recycle bin is empty</td>
+              </tr>
+            ) : packages.map(pkg => (
+              <tr key={pkg.id} className="hover:bg-gray-50">
+                <td className="py-3 px-4">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${pkg.tracking || pkg.id}`}
+                    checked={selectedIds.has(pkg.id)}
+                    onChange={() => toggleSelected(pkg.id)}
+                  />
+                </td>
+                <td className="py-3 px-4 text-sm text-gray-900 font-mono">{pkg.tracking || 'N/A'}</td>
+                <td className="py-3 px-4 text-sm text-gray-900">{getCarrierName(pkg.carrier)}</td>
+                <td className="py-3 px-4 text-sm text-gray-500">
+                  {pkg.timestamp ? format(new Date(pkg.timestamp), 'MMM d, yyyy HH:mm') : 'N/A'}
+                </td>
+                <td className="py-3 px-4 text-sm text-gray-900">{getDeviceLabelFromCache(pkg.deviceId)}</td>
+                <td className="py-3 px-4 text-sm text-gray-500">
+                  {pkg.deletedAt ? format(pkg.deletedAt.toDate(), 'MMM d, yyyy HH:mm') : 'Pending'}
+                  <div className="text-xs">by {pkg.deletedBy}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {cursor && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadPage(cursor)} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecycleBinSection;
@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  DEFAULT_ARCHIVE_AFTER_MONTHS,
+  DEFAULT_TIME_ZONE,
+  getArchiveNdjson,
+  getPackageArchives,
+  getRetentionSettings,
+  runArchival,
+  saveRetentionPolicy,
+  type PackageArchive,
+  type RetentionSettings,
+} from '../services/retentionService';
+
+const formatMonth = (month: string): string =>
+  format(new Date(Number(month.slice(0, 4)), Number(month.slice(4, 6)) - 1, 1), 'MMMM yyyy');
+
+const formatYmd = (dateYmd: string): string =>
+  `${dateYmd.slice(0, 4)}-${dateYmd.slice(4, 6)}-${dateYmd.slice(6, 8)}`;
+
+// Offered while typing a time zone
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const RetentionSection = () => {
+  const [settings, setSettings] = useState<RetentionSettings | null>(null);
+  const [archives, setArchives] = useState<PackageArchive[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [monthsInput, setMonthsInput] = useState(String(DEFAULT_ARCHIVE_AFTER_MONTHS));
+  const [timeZoneInput, setTimeZoneInput] = useState(DEFAULT_TIME_ZONE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [downloadingMonth, setDownloadingMonth] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [loadedSettings, loadedArchives] = await Promise.all([getRetentionSettings(), getPackageArchives()]);
+      setSettings(loadedSettings);
+      setEnabled(loadedSettings.enabled);
+      setMonthsInput(String(loadedSettings.archiveAfterMonths));
+      setTimeZoneInput(loadedSettings.timeZone ?? DEFAULT_TIME_ZONE);
+      setArchives(loadedArchives);
+    } catch (error) {
+      toast.error(`Error loading retention settings: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveRetentionPolicy(enabled, Number(monthsInput), timeZoneInput.trim());
+      toast.success('Retention policy saved');
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (!window.confirm(`Archive every package scanned more than ${settings?.archiveAfterMonths} months ago now?`)) return;
+
+    try {
+      setIsRunning(true);
+      const result = await runArchival();
+      toast.success(`Archived ${result?.archived ?? 0} packages`);
+      await load();
+    } catch (error) {
+      toast.error(`Error archiving packages: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDownload = async (month: string) => {
+    try {
+      setDownloadingMonth(month);
+      const content = await getArchiveNdjson(month);
+      const blob = new Blob([content], { type: 'application/x-ndjson;charset=utf-8;' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', `packages_${month.slice(0, 4)}-${month.slice(4, 6)}.ndjson`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(`Error downloading archive: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setDownloadingMonth(null);
+    }
+  };
+
+  const isDirty = settings !== null
+    && (enabled !== settings.enabled
+      || Number(monthsInput) !== settings.archiveAfterMonths
+      || timeZoneInput.trim() !== (settings.timeZone ?? DEFAULT_TIME_ZONE));
+
+  return (
+    <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Data Retention</h2>
+        <p className="text-sm text-gray-500">
+          Old packages are moved out of the live data by a nightly job and kept as monthly archives.
+          Dashboard statistics for archived months are kept.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium h-9">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          Archive packages automatically
+        </label>
+        <div className="grid gap-1.5">
+          <label htmlFor="retention-months" className="text-sm font-medium">Older than (months)</label>
+          <Input
+            id="retention-months"
+            type="number"
+            min={1}
+            value={monthsInput}
+            onChange={(e) => setMonthsInput(e.target.value)}
+            className="w-[140px]"
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <label htmlFor="retention-time-zone" className="text-sm font-medium">Scanner time zone</label>
+          <Input
+            id="retention-time-zone"
+            list="retention-time-zones"
+            value={timeZoneInput}
+            onChange={(e) => setTimeZoneInput(e.target.value)}
+            className="w-[220px]"
+          />
+          <datalist id="retention-time-zones">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+        </div>
+        <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving ? 'Saving...' : 'Save Policy'}
+        </Button>
+        <Button variant="outline" onClick={handleRunNow} disabled={isRunning || isDirty}>
+          {isRunning ? 'Archiving...' : 'Run Now'}
+        </Button>
+      </div>
+
+      {settings?.lastRunAt && (
+        <p className="text-sm text-gray-600">
+          Last run {format(settings.lastRunAt.toDate(), "MMM d, yyyy 'at' HH:mm")}:{' '}
+          {settings.lastRunResult?.archived ?? 0} packages archived
+          {settings.archivedBeforeYmd && `, everything scanned before ${formatYmd(settings.archivedBeforeYmd)} is archived`}.
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Months are counted in the time zone the scanners write scan dates in, not the zone of this browser.
+      </p>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 max-h-[400px] overflow-y-auto">
+        <table className="min-w-full bg-white">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Month</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Packages</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Archived</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={4} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+              </tr>
+            ) : archives.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="py-4 px-4 text-center text-sm text-gray-500">No archived months yet</td>
+              </tr>
+            ) : archives.map(archive => (
+              <tr key={archive.month} className="hover:bg-gray-50">
+                <td className="py-3 px-4 text-sm text-gray-900">{formatMonth(archive.month)}</td>
+                <td className="py-3 px-4 text-sm text-gray-900">{new Intl.NumberFormat('en-US').format(archive.count)}</td>
+                <td className="py-3 px-4 text-sm text-gray-500">
+                  {archive.updatedAt ? format(archive.updatedAt.toDate(), 'MMM d, yyyy HH:mm') : ''}
+                </td>
+                <td className="py-3 px-4 text-sm text-right">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDownload(archive.month)}
+                    disabled={downloadingMonth === archive.month}
+                  >
+                    {downloadingMonth === archive.month ? 'Preparing...' : 'Download NDJSON'}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RetentionSection;
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { hasRole } from '../config/roles';
+import { useAuth } from '../contexts/useAuth';
+import { getUserPreferences, saveUserPreferences } from '../services/preferencesService';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearches,
+  type NewSavedSearch,
+  type SavedSearch
+} from '../services/savedSearchService';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+interface SavedSearchesProps {
+  /** The search currently shown, saved as-is */
+  current: Omit<NewSavedSearch, 'name' | 'team'>;
+  onApply: (search: SavedSearch) => void;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Dropdown of the user's saved searches and the team presets, with pinned ones as chips
+const SavedSearches = ({ current, onApply }: SavedSearchesProps) => {
+  const { user } = useAuth();
+  const isAdmin = hasRole(user?.role, 'admin');
+
+  const [mine, setMine] = useState<SavedSearch[]>([]);
+  const [team, setTeam] = useState<SavedSearch[]>([]);
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shareWithTeam, setShareWithTeam] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getSavedSearches(user.id)
+      .then(searches => {
+        setMine(searches.mine);
+        setTeam(searches.team);
+      })
+      .catch(error => toast.error(`Error loading saved searches: ${getErrorMessage(error)}`));
+    getUserPreferences(user.id).then(preferences => setPinned(preferences.pinnedSearches ?? []));
+  }, [user?.id]);
+
+  const savePinned = (ids: string[]) => {
+    setPinned(ids);
+    if (!user?.id) return;
+    saveUserPreferences(user.id, { pinnedSearches: ids }).catch(() => {
+      toast.error("Couldn't save your pinned searches");
+    });
+  };
+
+  const handleApply = (search: SavedSearch) => {
+    onApply(search);
+    setIsOpen(false);
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    try {
+      setIsSaving(true);
+      const saved = await createSavedSearch(user.id, { ...current, name, team: isAdmin && shareWithTeam });
+      const add = (searches: SavedSearch[]) => [...searches, saved].sort((a, b) => a.name.localeCompare(b.name));
+      if (saved.team) setTeam(add);
+      else setMine(add);
+      setName('');
+      setShareWithTeam(false);
+      toast.success(saved.team ? `Published "${saved.name}" to the team` : `Saved "${saved.name}"`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    try {
+      await deleteSavedSearch(search.id);
+      const remove = (searches: SavedSearch[]) => searches.filter(s => s.id !== search.id);
+      setMine(remove);
+      setTeam(remove);
+      if (pinned.includes(search.id)) savePinned(pinned.filter(id => id !== search.id));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const togglePinned = (search: SavedSearch) => {
+    savePinned(pinned.includes(search.id) ? pinned.filter(id => id !== search.id) : [...pinned, search.id]);
+  };
+
+  const pinnedSearches = pinned
+    .map(id => [...mine, ...team].find(search => search.id === id))
+    .filter((search): search is SavedSearch => !!search);
+
+  const renderGroup = (label: string, searches: SavedSearch[], canDelete: boolean) => (
+    <div className="py-1">
+      <p className="px-2 py-1 text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</p>
+      {searches.length === 0 ? (
+        <p className="px-2 py-1 text-sm text-gray-400">None yet</p>
+      ) : (
+        searches.map(search => (
+          <div key={search.id} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-50">
+            <button
+              onClick={() => handleApply(search)}
+              className={`flex-grow text-left text-sm truncate ${search.params === current.params ? 'font-medium text-indigo-600' : 'text-gray-700'}`}
+            >
+              {search.name}
+            </button>
+            <button
+              onClick={() => togglePinned(search)}
+              className={`px-1 ${pinned.includes(search.id) ? 'text-indigo-600' : 'text-gray-300 hover:text-gray-500'}`}
+              title={pinned.includes(search.id) ? 'Unpin' : 'Pin as a quick filter'}
+            >
+              {pinned.includes(search.id) ? '★' : '☆'}
+            </button>
+            {canDelete && (
+              <button
+                onClick={() => handleDelete(search)}
+                className="px-1 text-gray-300 hover:text-red-600"
+                title="Delete"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2">
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+            Saved Searches
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-2">
+          {renderGroup('My searches', mine, true)}
+          {renderGroup('Team presets', team, isAdmin)}
+          <div className="mt-1 pt-2 border-t border-gray-100 space-y-2 px-2">
+            <Input
+              placeholder="Name this search"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && name.trim()) handleSave();
+              }}
+            />
+            {isAdmin && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shareWithTeam}
+                  onChange={(e) => setShareWithTeam(e.target.checked)}
+                />
+                Publish as a team preset
+              </label>
+            )}
+            <Button size="sm" className="w-full" onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : 'Save Current Search'}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {pinnedSearches.map(search => (
+        <button
+          key={search.id}
+          onClick={() => onApply(search)}
+          className={`px-3 py-1 rounded-full border text-sm ${
+            search.params === current.params
+              ? 'bg-indigo-50 border-indigo-500 text-indigo-700'
+              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+          }`}
+          title={search.team ? 'Team preset' : undefined}
+        >
+          {search.name}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SavedSearches;
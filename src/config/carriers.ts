@@ -0,0 +1,367 @@
+/**
+ * Carrier registry: the single place that decides which carrier a scan
+ * belongs to, and how that carrier is named and colored on screen.
+ *
+ * Scanners report carriers in many spellings ("FedEx Ground/Home",
+ * "UPS Ground", a JSON string, an object with a name...). Everything that
+ * groups, filters or displays carriers must go through resolveCarrier().
+ */
+
+export interface CarrierDefinition {
+  /** Stable canonical ID, e.g. "fedex-ground" */
+  id: string;
+  /** Full display name, e.g. "FedEx Ground" */
+  name: string;
+  /** Compact name for tight spaces such as the KPI breakdown */
+  shortName: string;
+  /** Brand color as a CSS color value */
+  color: string;
+  /**
+   * Alias patterns. A raw carrier name matches an alias when every word of
+   * the alias appears as a word in the raw name, case-insensitively.
+   */
+  aliases: string[];
+}
+
+/**
+ * A carrier document from the Firestore carriers collection. Documents whose
+ * ID matches a built-in carrier override its fields; any other document adds
+ * a new canonical carrier. rawNames pins exact raw scanner values to it.
+ */
+export interface CarrierOverride {
+  id: string;
+  name?: string;
+  shortName?: string;
+  color?: string;
+  aliases?: string[];
+  rawNames?: string[];
+}
+
+/** A canonical carrier together with the raw scanner values that map to it */
+export interface CarrierOption {
+  carrier: CarrierDefinition;
+  rawNames: string[];
+}
+
+export const UNKNOWN_CARRIER_ID = 'unknown';
+export const UNKNOWN_CARRIER_NAME = 'Unknown Carrier';
+
+// The most specific matching alias wins (see resolveCarrier), so "FedEx Ground"
+// resolves to FedEx Ground rather than the generic FedEx entry.
+// These are the built-in defaults; admins can extend them from Firestore.
+export const CARRIERS: CarrierDefinition[] = [
+  {
+    id: 'fedex-express',
+    name: 'FedEx Express',
+    shortName: 'FedEx Exp',
+    color: '#2196f3',
+    aliases: ['fedex express'],
+  },
+  {
+    id: 'fedex-ground',
+    name: 'FedEx Ground',
+    shortName: 'FedEx Gnd',
+    color: '#4caf50',
+    aliases: ['fedex ground'],
+  },
+  {
+    id: 'fedex',
+    name: 'FedEx',
+    shortName: 'FedEx',
+    color: '#4d148c',
+    aliases: ['fedex'],
+  },
+  {
+    id: 'ups',
+    name: 'UPS',
+    shortName: 'UPS',
+    color: '#ff9800',
+    aliases: ['ups', 'united parcel service'],
+  },
+  {
+    id: 'usps',
+    name: 'USPS',
+    shortName: 'USPS',
+    color: '#1e40af',
+    aliases: ['usps', 'united states postal service', 'us postal service'],
+  },
+  {
+    id: 'dhl',
+    name: 'DHL',
+    shortName: 'DHL',
+    color: '#ffc107',
+    aliases: ['dhl'],
+  },
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    shortName: 'Amazon',
+    color: '#ff5722',
+    aliases: ['amazon', 'amzl'],
+  },
+];
+
+const UNKNOWN_CARRIER: CarrierDefinition = {
+  id: UNKNOWN_CARRIER_ID,
+  name: UNKNOWN_CARRIER_NAME,
+  shortName: 'Unknown',
+  color: '#9ca3af',
+  aliases: ['unknown', 'unknown carrier'],
+};
+
+// Active registry: built-ins merged with the Firestore overrides
+let registeredCarriers: CarrierDefinition[] = CARRIERS;
+
+// Exact raw name -> canonical carrier ID, set by admins in Firestore
+let rawNameMappings = new Map<string, string>();
+
+// Bumped on every registry change so React can re-render (see useCarrierRegistry)
+let registryVersion = 0;
+const registryListeners = new Set<() => void>();
+
+// Carriers not in the registry are created on the fly; cache them so the
+// same raw name always yields the same object
+const unregisteredCarriers = new Map<string, CarrierDefinition>();
+
+const toWords = (value: string): string[] =>
+  value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const matchesAlias = (words: string[], alias: string): boolean =>
+  toWords(alias).every(aliasWord => words.includes(aliasWord));
+
+/**
+ * How specific a carrier's best alias match is: the number of words in its
+ * longest matching alias, or 0 when none matches
+ */
+const aliasSpecificity = (words: string[], definition: CarrierDefinition): number =>
+  definition.aliases.reduce(
+    (best, alias) => matchesAlias(words, alias) ? Math.max(best, toWords(alias).length) : best,
+    0
+  );
+
+// Default short name: short names stay as they are, long ones get truncated
+const toShortName = (name: string): string =>
+  name.length <= 10 ? name : `${name.substring(0, 8)}...`;
+
+/**
+ * Extract the raw carrier name from a package's carrier field.
+ * The scanner writes it as a plain string, a quoted string, a JSON string
+ * or an object with a name. Mirrors getRawCarrierName in functions/src/dailyStats.ts.
+ * @param carrier - The carrier field as stored on the package
+ * @returns The raw carrier name, or "Unknown Carrier" when there is none
+ */
+export const getRawCarrierName = (carrier: unknown): string => {
+  if (typeof carrier === 'string') {
+    const trimmed = carrier.trim();
+    if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (parsed && typeof parsed === 'object' && 'name' in parsed && parsed.name) {
+          return String(parsed.name);
+        }
+      } catch {
+        // Not JSON after all, fall through to the plain string handling
+      }
+    }
+    return trimmed.replace(/^["'](.+)["']$/, '$1') || UNKNOWN_CARRIER_NAME;
+  }
+
+  if (carrier && typeof carrier === 'object' && 'name' in carrier) {
+    const name = (carrier as { name?: unknown }).name;
+    return name ? String(name) : UNKNOWN_CARRIER_NAME;
+  }
+
+  return UNKNOWN_CARRIER_NAME;
+};
+
+/**
+ * Build a definition for a carrier the registry doesn't know about, so it
+ * still gets a stable ID, a readable short name and a consistent color
+ */
+const createUnregisteredCarrier = (rawName: string): CarrierDefinition => {
+  const hash = rawName.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return {
+    id: `other:${toCarrierId(rawName) || rawName}`,
+    name: rawName,
+    shortName: toShortName(rawName),
+    color: `hsl(${hash % 360}, 60%, 45%)`,
+    aliases: [rawName],
+  };
+};
+
+/**
+ * Resolve a package's carrier field (or any carrier name) to its canonical carrier
+ * @param carrier - Raw carrier field, raw name or canonical display name
+ * @returns The canonical carrier definition
+ */
+export const resolveCarrier = (carrier: unknown): CarrierDefinition => {
+  const rawName = getRawCarrierName(carrier);
+
+  // Explicit admin mappings win over alias matching
+  const mappedId = rawNameMappings.get(rawName);
+  if (mappedId) {
+    const mapped = getCarrierById(mappedId);
+    if (mapped) return mapped;
+  }
+
+  const words = toWords(rawName);
+
+  if (words.length === 0 || UNKNOWN_CARRIER.aliases.some(alias => matchesAlias(words, alias))) {
+    return UNKNOWN_CARRIER;
+  }
+
+  // The carrier with the most specific matching alias wins, so an admin-created
+  // "FedEx SmartPost" beats the generic "fedex" alias; ties go to registry order
+  let registered: CarrierDefinition | undefined;
+  let bestSpecificity = 0;
+  registeredCarriers.forEach(definition => {
+    const specificity = aliasSpecificity(words, definition);
+    if (specificity > bestSpecificity) {
+      registered = definition;
+      bestSpecificity = specificity;
+    }
+  });
+  if (registered) return registered;
+
+  let unregistered = unregisteredCarriers.get(rawName);
+  if (!unregistered) {
+    unregistered = createUnregisteredCarrier(rawName);
+    unregisteredCarriers.set(rawName, unregistered);
+  }
+  return unregistered;
+};
+
+/**
+ * Look up a canonical carrier by ID
+ * @param id - Canonical carrier ID
+ * @returns The carrier, or undefined if no registered carrier has that ID
+ */
+export const getCarrierById = (id: string): CarrierDefinition | undefined => {
+  if (id === UNKNOWN_CARRIER_ID) return UNKNOWN_CARRIER;
+  return registeredCarriers.find(definition => definition.id === id);
+};
+
+/**
+ * Get every registered canonical carrier (built-in and admin-created)
+ */
+export const getRegisteredCarriers = (): CarrierDefinition[] => registeredCarriers;
+
+/**
+ * Get the canonical carrier ID a raw name is explicitly mapped to, if any
+ */
+export const getRawNameMapping = (rawName: string): string | undefined => rawNameMappings.get(rawName);
+
+/**
+ * Turn a carrier name into a canonical carrier ID, e.g. "OnTrac Ground" -> "ontrac-ground"
+ */
+export const toCarrierId = (name: string): string => toWords(name).join('-');
+
+/**
+ * Replace the active registry with the built-ins merged with Firestore overrides.
+ * Everything that resolves carriers picks up the change on its next call.
+ * @param overrides - Documents from the carriers collection
+ */
+export const applyCarrierOverrides = (overrides: CarrierOverride[]): CarrierDefinition[] => {
+  const byId = new Map(overrides.map(override => [override.id, override]));
+  const mappings = new Map<string, string>();
+
+  const merge = (base: CarrierDefinition, override?: CarrierOverride): CarrierDefinition => ({
+    id: base.id,
+    name: override?.name || base.name,
+    shortName: override?.shortName || base.shortName,
+    color: override?.color || base.color,
+    aliases: override?.aliases?.length ? override.aliases : base.aliases,
+  });
+
+  const builtIns = CARRIERS.map(definition => merge(definition, byId.get(definition.id)));
+  const added: CarrierDefinition[] = [];
+  overrides.forEach(override => {
+    if (!override.name || CARRIERS.some(definition => definition.id === override.id)) return;
+    added.push(merge(
+      {
+        id: override.id,
+        name: override.name,
+        shortName: toShortName(override.name),
+        color: '#6b7280',
+        aliases: [override.name],
+      },
+      override
+    ));
+  });
+  added.sort((a, b) => a.name.localeCompare(b.name));
+
+  overrides.forEach(override => {
+    override.rawNames?.forEach(rawName => mappings.set(rawName, override.id));
+  });
+
+  registeredCarriers = [...builtIns, ...added];
+  rawNameMappings = mappings;
+  unregisteredCarriers.clear();
+
+  registryVersion++;
+  registryListeners.forEach(listener => listener());
+  return registeredCarriers;
+};
+
+/**
+ * Get a number that changes every time the registry is replaced
+ */
+export const getCarrierRegistryVersion = (): number => registryVersion;
+
+/**
+ * Be notified whenever the registry is replaced
+ * @returns Function that removes the listener
+ */
+export const subscribeToCarrierRegistry = (listener: () => void): (() => void) => {
+  registryListeners.add(listener);
+  return () => {
+    registryListeners.delete(listener);
+  };
+};
+
+/**
+ * Get the canonical display name for a carrier field or name
+ */
+export const getCarrierName = (carrier: unknown): string => resolveCarrier(carrier).name;
+
+/**
+ * Get the compact display name for a carrier field or name
+ */
+export const getCarrierShortName = (carrier: unknown): string => resolveCarrier(carrier).shortName;
+
+/**
+ * Get the brand color (CSS color value) for a carrier field or name
+ */
+export const getCarrierColor = (carrier: unknown): string => resolveCarrier(carrier).color;
+
+/**
+ * Merge counts keyed by raw carrier name into counts keyed by canonical display name
+ * @param counts - Counts keyed by raw carrier name, e.g. from the daily rollups
+ */
+export const normalizeCarrierCounts = (counts: Record<string, number>): Record<string, number> => {
+  const normalized: Record<string, number> = {};
+  Object.entries(counts).forEach(([rawName, count]) => {
+    if (!count) return;
+    const name = getCarrierName(rawName);
+    normalized[name] = (normalized[name] || 0) + count;
+  });
+  return normalized;
+};
+
+/**
+ * Group raw carrier names by canonical carrier, for filter dropdowns.
+ * The raw names are what a Firestore query on packages.carrierName has to match;
+ * packages.carrier itself may be an object or a JSON or quoted string.
+ * @param rawNames - Raw carrier names as stored on packages
+ * @returns One option per canonical carrier, sorted by display name
+ */
+export const groupCarrierNames = (rawNames: Iterable<string>): CarrierOption[] => {
+  const options = new Map<string, CarrierOption>();
+  for (const rawName of rawNames) {
+    const carrier = resolveCarrier(rawName);
+    const option = options.get(carrier.id) || { carrier, rawNames: [] };
+    if (!option.rawNames.includes(rawName)) option.rawNames.push(rawName);
+    options.set(carrier.id, option);
+  }
+  return Array.from(options.values()).sort((a, b) => a.carrier.name.localeCompare(b.carrier.name));
+};
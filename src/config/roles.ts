@@ -0,0 +1,39 @@
+/**
+ * Dashboard roles, from most to least privileged.
+ * A user's role is stored in users/{uid}.role and enforced by firestore.rules.
+ * Scanner accounts see what viewers see and may also record scans.
+ */
+export type UserRole = 'admin' | 'supervisor' | 'scanner' | 'viewer';
+
+export const USER_ROLES: UserRole[] = ['admin', 'supervisor', 'scanner', 'viewer'];
+
+// Role given to signed-in accounts without a users/{uid} document
+export const DEFAULT_ROLE: UserRole = 'viewer';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  supervisor: 'Supervisor',
+  scanner: 'Scanner',
+  viewer: 'Viewer',
+};
+
+const ROLE_RANK: Record<UserRole, number> = {
+  admin: 3,
+  supervisor: 2,
+  scanner: 1,
+  viewer: 1,
+};
+
+/**
+ * Coerce a stored value into a known role, falling back to the default role
+ */
+export const toUserRole = (value: unknown): UserRole =>
+  USER_ROLES.includes(value as UserRole) ? (value as UserRole) : DEFAULT_ROLE;
+
+/**
+ * Check whether a role grants at least the permissions of another
+ * @param role - The user's role (undefined when signed out)
+ * @param required - The minimum role needed
+ */
+export const hasRole = (role: UserRole | undefined, required: UserRole): boolean =>
+  !!role && ROLE_RANK[role] >= ROLE_RANK[required];
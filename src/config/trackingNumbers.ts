@@ -0,0 +1,257 @@
+/**
+ * Tracking number parser: recognizes the number formats of the carriers in
+ * the built-in registry and verifies their check digits.
+ *
+ * The scanner doesn't always report a carrier, so the number itself is the
+ * best evidence of who is shipping a package. parseTrackingNumber() only
+ * looks at the number; assessScan() compares it with the scanned carrier.
+ */
+
+import { getCarrierById, resolveCarrier, UNKNOWN_CARRIER_ID, type CarrierDefinition } from './carriers';
+
+/** Carrier families whose tracking number formats we know */
+export type TrackingCarrierId = 'ups' | 'fedex' | 'usps' | 'dhl' | 'amazon';
+
+export interface TrackingNumberInfo {
+  /** Upper-cased, without spaces and dashes */
+  normalized: string;
+  /** Carrier family the number format belongs to, null when unrecognized */
+  carrierId: TrackingCarrierId | null;
+  /** Name of the matched format, e.g. "UPS 1Z" */
+  format: string | null;
+  /**
+   * False when the number matches a known format but its check digit is
+   * wrong, or contains characters no carrier uses
+   */
+  valid: boolean;
+  /**
+   * The failed format is shared with other carriers' numbers, so the number
+   * is only invalid on a scan of carrierId
+   */
+  ambiguous: boolean;
+}
+
+export interface ScanAssessment {
+  tracking: TrackingNumberInfo;
+  /** The tracking number fails validation */
+  invalid: boolean;
+  /** The number belongs to a different carrier than the one scanned */
+  carrierMismatch: boolean;
+  /** Carrier derived from the number when the scan has none */
+  inferredCarrier: CarrierDefinition | null;
+}
+
+interface TrackingFormat {
+  carrierId: TrackingCarrierId;
+  name: string;
+  pattern: RegExp;
+  /** Checks the part captured by the pattern's first group, or the whole number */
+  isValid?: (value: string) => boolean;
+  /** Other carriers use numbers of this shape too, see TrackingNumberInfo.ambiguous */
+  ambiguous?: boolean;
+}
+
+/** Tracking number checks of one day's scans, keyed by raw carrier name, see getTrackingCheck() in the functions */
+export type TrackingCheckCounts = Record<string, Record<string, number>>;
+
+// Mirrors INVALID_CHECK in functions/src/trackingNumbers.ts
+const INVALID_CHECK = 'invalid';
+
+// Scans of these families can carry a number of another family: FedEx Ground
+// Economy (SmartPost) parcels are delivered by USPS and labeled with USPS numbers
+const COMPATIBLE_FAMILIES: Partial<Record<TrackingCarrierId, TrackingCarrierId[]>> = {
+  usps: ['fedex'],
+};
+
+const toDigits = (value: string): number[] => value.split('').map(Number);
+
+/**
+ * Mod 10 with weights 3 and 1, starting with 3 at the digit left of the check digit.
+ * Used by USPS IMpb and FedEx Ground.
+ */
+const isValidMod10 = (value: string): boolean => {
+  const digits = toDigits(value);
+  const check = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+/** UPS 1Z: letters count as (code - 63) % 10, even positions are doubled */
+const isValidUps = (value: string): boolean => {
+  const chars = value.slice(2).split('');
+  const check = Number(chars.pop());
+  const sum = chars.reduce((total, char, i) => {
+    const digit = /\d/.test(char) ? Number(char) : (char.charCodeAt(0) - 63) % 10;
+    return total + digit * (i % 2 === 0 ? 1 : 2);
+  }, 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+/** FedEx Express: weights 1, 3, 7 from the right, sum mod 11 */
+const isValidFedExExpress = (value: string): boolean => {
+  const digits = toDigits(value);
+  const check = digits.pop();
+  const weights = [1, 3, 7];
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * weights[i % 3], 0);
+  return (sum % 11) % 10 === check;
+};
+
+/** UPU S10 (international mail): 8 serial digits weighted 8, 6, 4, 2, 3, 5, 9, 7 */
+const isValidS10 = (value: string): boolean => {
+  const digits = toDigits(value.slice(2, 11));
+  const check = digits.pop();
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  const remainder = 11 - (digits.reduce((total, digit, i) => total + digit * weights[i], 0) % 11);
+  const expected = remainder === 10 ? 0 : remainder === 11 ? 5 : remainder;
+  return expected === check;
+};
+
+/** DHL Express: the first 9 digits mod 7 */
+const isValidDhlExpress = (value: string): boolean =>
+  Number(value.slice(0, 9)) % 7 === Number(value[9]);
+
+// Order matters: the first format whose check digit passes wins, so formats
+// with a distinctive prefix come before the all-digit ones
+const TRACKING_FORMATS: TrackingFormat[] = [
+  { carrierId: 'ups', name: 'UPS 1Z', pattern: /^1Z[0-9A-Z]{16}$/, isValid: isValidUps },
+  { carrierId: 'amazon', name: 'Amazon Logistics', pattern: /^TB[ACM]\d{12}$/ },
+  { carrierId: 'usps', name: 'USPS International', pattern: /^[A-Z]{2}\d{9}US$/, isValid: isValidS10 },
+  // IMpb, optionally preceded by the 420 + ZIP routing code of the full barcode
+  { carrierId: 'usps', name: 'USPS IMpb', pattern: /^(?:420\d{5}(?:\d{4})?)?(9[1-5]\d{18,20})$/, isValid: isValidMod10 },
+  // The barcode on Ground labels: the last 15 digits are the tracking number
+  { carrierId: 'fedex', name: 'FedEx Ground 96', pattern: /^96\d{5}(\d{15})$/, isValid: isValidMod10 },
+  { carrierId: 'fedex', name: 'FedEx Express', pattern: /^\d{12}$/, isValid: isValidFedExExpress },
+  { carrierId: 'fedex', name: 'FedEx Ground', pattern: /^\d{15}$/, isValid: isValidMod10 },
+  // Plenty of regional and in-house numbers are 10 digits as well
+  { carrierId: 'dhl', name: 'DHL Express', pattern: /^\d{10}$/, isValid: isValidDhlExpress, ambiguous: true },
+  { carrierId: 'dhl', name: 'DHL eCommerce', pattern: /^GM\d{16,18}$/ },
+  { carrierId: 'dhl', name: 'DHL Parcel', pattern: /^JJD\d{16,20}$/ },
+];
+
+/**
+ * Upper-case a tracking number and drop the spaces and dashes some labels print.
+ * Mirrors normalizeTrackingNumber in functions/src/trackingNumbers.ts.
+ * @param tracking - Tracking number as scanned or typed
+ */
+export const normalizeTrackingNumber = (tracking: string): string =>
+  (tracking || '').toUpperCase().replace(/[\s-]+/g, '');
+
+/**
+ * The tracking number in a barcode as the camera or a USB scanner read it.
+ * USPS labels encode "420" + the destination ZIP code (5 or 9 digits) in front
+ * of the tracking number, usually followed by a GS control character.
+ * @param scanned - The decoded barcode
+ */
+export const getScannedTrackingNumber = (scanned: string): string => {
+  // eslint-disable-next-line no-control-regex
+  const fields = scanned.split(/[\u0000-\u001f\u007f]+/).map(field => field.trim()).filter(Boolean);
+  if (fields.length > 1 && /^420\d{5}(?:\d{4})?$/.test(fields[0])) return fields.slice(1).join('');
+
+  // Without a separator the ZIP code's length is told by the tracking number's check digit
+  const value = fields.join('');
+  for (const zipLength of [5, 9]) {
+    const match = value.match(new RegExp(`^420\\d{${zipLength}}(9[1-5]\\d{18,20})$`));
+    if (match && isValidMod10(match[1])) return match[1];
+  }
+  return value;
+};
+
+/**
+ * Recognize a tracking number's carrier and verify its check digit.
+ * Mirrors parseTrackingNumber in functions/src/trackingNumbers.ts.
+ * @param tracking - Tracking number as scanned
+ */
+export const parseTrackingNumber = (tracking: string): TrackingNumberInfo => {
+  const normalized = normalizeTrackingNumber(tracking);
+
+  if (!/^[0-9A-Z]{8,40}$/.test(normalized)) {
+    return { normalized, carrierId: null, format: null, valid: false, ambiguous: false };
+  }
+
+  let failed: TrackingFormat | null = null;
+  for (const format of TRACKING_FORMATS) {
+    const match = normalized.match(format.pattern);
+    if (!match) continue;
+    if (!format.isValid || format.isValid(match[1] ?? normalized)) {
+      return { normalized, carrierId: format.carrierId, format: format.name, valid: true, ambiguous: false };
+    }
+    failed = failed || format;
+  }
+
+  if (failed) {
+    return { normalized, carrierId: failed.carrierId, format: failed.name, valid: false, ambiguous: !!failed.ambiguous };
+  }
+
+  // Formats we don't know (regional carriers and the like) get the benefit of the doubt
+  return { normalized, carrierId: null, format: null, valid: true, ambiguous: false };
+};
+
+/**
+ * Get the tracking number family of a canonical carrier, e.g. "fedex-ground" -> "fedex"
+ * @returns The family, or null for carriers whose formats we don't know
+ */
+export const getTrackingCarrierId = (carrier: CarrierDefinition): TrackingCarrierId | null => {
+  if (carrier.id.startsWith('fedex')) return 'fedex';
+  return (['ups', 'usps', 'dhl', 'amazon'] as string[]).includes(carrier.id) ? carrier.id as TrackingCarrierId : null;
+};
+
+const isCarrierMismatch = (numberCarrierId: TrackingCarrierId, scannedCarrierId: TrackingCarrierId | null): boolean =>
+  !!scannedCarrierId
+  && numberCarrierId !== scannedCarrierId
+  && !COMPATIBLE_FAMILIES[numberCarrierId]?.includes(scannedCarrierId);
+
+const isInvalidFor = (info: TrackingNumberInfo, scannedCarrierId: TrackingCarrierId | null): boolean =>
+  !info.valid && (!info.ambiguous || info.carrierId === scannedCarrierId);
+
+/**
+ * Check a scan's tracking number against its carrier field
+ * @param tracking - Tracking number as scanned
+ * @param carrier - The package's carrier field
+ */
+export const assessScan = (tracking: string, carrier: unknown): ScanAssessment => {
+  const info = parseTrackingNumber(tracking);
+  const scanned = resolveCarrier(carrier);
+
+  // Only a number whose check digit passed is trusted to name a carrier
+  const numberCarrierId = info.valid ? info.carrierId : null;
+
+  if (scanned.id === UNKNOWN_CARRIER_ID) {
+    return {
+      tracking: info,
+      invalid: isInvalidFor(info, null),
+      carrierMismatch: false,
+      inferredCarrier: numberCarrierId ? getCarrierById(numberCarrierId) ?? null : null,
+    };
+  }
+
+  const scannedCarrierId = getTrackingCarrierId(scanned);
+  const carrierMismatch = !!numberCarrierId && isCarrierMismatch(numberCarrierId, scannedCarrierId);
+
+  return { tracking: info, invalid: isInvalidFor(info, scannedCarrierId), carrierMismatch, inferredCarrier: null };
+};
+
+/**
+ * Count the invalid and carrier mismatched scans in the rollups' tracking checks,
+ * applying the same rules as assessScan() with the current carrier mappings
+ * @param days - trackingChecks of each daily rollup
+ */
+export const countTrackingChecks = (days: TrackingCheckCounts[]): { invalid: number; carrierMismatch: number } => {
+  const totals = { invalid: 0, carrierMismatch: 0 };
+
+  days.forEach(checksByCarrier => {
+    Object.entries(checksByCarrier).forEach(([rawCarrier, checks]) => {
+      const scanned = resolveCarrier(rawCarrier);
+      const scannedCarrierId = scanned.id === UNKNOWN_CARRIER_ID ? null : getTrackingCarrierId(scanned);
+
+      Object.entries(checks).forEach(([check, count]) => {
+        if (check === INVALID_CHECK || (scannedCarrierId && check === `${scannedCarrierId}-${INVALID_CHECK}`)) {
+          totals.invalid += count;
+        } else if (!check.endsWith(`-${INVALID_CHECK}`) && isCarrierMismatch(check as TrackingCarrierId, scannedCarrierId)) {
+          totals.carrierMismatch += count;
+        }
+      });
+    });
+  });
+
+  return totals;
+};
@@ -8,6 +8,8 @@ import {
   createUserWithEmailAndPassword,
 } from 'firebase/auth';
 import type { User as FirebaseUser, UserCredential } from 'firebase/auth';
+import { subscribeToUserProfile } from '../services/userService';
+import type { UserRole } from '../config/roles';
 
 // Define the shape of the user object
 interface User {
@@ -15,6 +17,7 @@ interface User {
   name: string | null;
   email: string | null;
   photoURL?: string | null;
+  role: UserRole;
 }
 
 // Define the shape of the auth state
@@ -41,12 +44,13 @@ interface AuthProviderProps {
 }
 
 // Helper function to convert Firebase User to our User type
-const formatUser = (firebaseUser: FirebaseUser): User => {
+const formatUser = (firebaseUser: FirebaseUser, role: UserRole): User => {
   return {
     id: firebaseUser.uid,
     name: firebaseUser.displayName,
     email: firebaseUser.email,
     photoURL: firebaseUser.photoURL,
+    role,
   };
 };
 
@@ -61,16 +65,29 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
 
   // Listen for Firebase auth state changes
   useEffect(() => {
+    // The role comes from users/{uid}; keep listening so role changes apply immediately
+    let unsubscribeProfile: (() => void) | undefined;
+
     const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+      unsubscribeProfile?.();
+      unsubscribeProfile = undefined;
+
       if (firebaseUser) {
         // User is signed in
         const token = await firebaseUser.getIdToken();
-        const formattedUser = formatUser(firebaseUser);
-        
-        setAuthState({
-          isAuthenticated: true,
-          user: formattedUser,
-          token,
+
+        unsubscribeProfile = subscribeToUserProfile(firebaseUser.uid, (profile) => {
+          // Disabled accounts are signed out straight away rather than when their token expires
+          if (profile.disabled) {
+            signOut(auth).catch(error => console.error('Error signing out disabled account:', error));
+            return;
+          }
+          setAuthState({
+            isAuthenticated: true,
+            user: formatUser(firebaseUser, profile.role),
+            token,
+          });
+          setLoading(false);
         });
       } else {
         // User is signed out
@@ -79,12 +96,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           user: null,
           token: null,
         });
+        setLoading(false);
       }
-      setLoading(false);
     });
 
-    // Cleanup subscription on unmount
-    return () => unsubscribe();
+    // Cleanup subscriptions on unmount
+    return () => {
+      unsubscribeProfile?.();
+      unsubscribe();
+    };
   }, []);
 
   // Login function
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getCarrierRegistryVersion,
+  getRegisteredCarriers,
+  subscribeToCarrierRegistry,
+  type CarrierDefinition,
+} from '../config/carriers';
+
+/**
+ * Re-render whenever admins change the carrier registry in Firestore.
+ * Use `version` as an effect dependency to recompute carrier-derived data.
+ */
+export const useCarrierRegistry = (): { carriers: CarrierDefinition[]; version: number } => {
+  const version = useSyncExternalStore(subscribeToCarrierRegistry, getCarrierRegistryVersion);
+  return { carriers: getRegisteredCarriers(), version };
+};
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/** New values for search params; null removes the param */
+export type UrlParamChanges = Record<string, string | null>;
+
+/**
+ * View state kept in the URL's search params, so a refresh keeps it and a
+ * copied link opens the same view. Updates replace the current history entry
+ * instead of adding one per keystroke, and several params change at once.
+ */
+export const useUrlParams = (): {
+  searchParams: URLSearchParams;
+  updateParams: (changes: UrlParamChanges) => void;
+} => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const updateParams = useCallback((changes: UrlParamChanges) => {
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null) next.delete(key);
+        else next.set(key, value);
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  return { searchParams, updateParams };
+};
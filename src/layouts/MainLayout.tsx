@@ -1,9 +1,16 @@
 import { Outlet, NavLink } from "react-router-dom"
 import { useAuth } from "../contexts/useAuth"
 import { Toaster } from 'react-hot-toast'
+import { useEffect } from "react"
+import { applyCarrierOverrides } from "../config/carriers"
+import { subscribeToCarrierOverrides } from "../services/carrierService"
+import { hasRole } from "../config/roles"
 
 const MainLayout = () => {
     const { user } = useAuth()
+
+    // Keep the carrier registry in sync with the admin-editable carriers collection
+    useEffect(() => subscribeToCarrierOverrides(applyCarrierOverrides), [])
     
     return (
         <div className="min-h-screen flex flex-col bg-gray-50">
@@ -50,19 +57,53 @@ const MainLayout = () => {
                                     Dashboard
                                 </NavLink>
 
-                                <NavLink 
-                                    to="/admin" 
-                                    className={({ isActive }) => 
-                                        `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
-                                            isActive 
-                                                ? 'border-indigo-500 text-gray-900' 
-                                                : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
-                                        }`
-                                    }
-                                    end
-                                >
-                                    Admin
-                                </NavLink>
+                                {hasRole(user?.role, 'supervisor') && (
+                                    <NavLink 
+                                        to="/duplicates" 
+                                        className={({ isActive }) => 
+                                            `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                                                isActive 
+                                                    ? 'border-indigo-500 text-gray-900' 
+                                                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                                            }`
+                                        }
+                                        end
+                                    >
+                                        Duplicates
+                                    </NavLink>
+                                )}
+
+                                {hasRole(user?.role, 'admin') && (
+                                    <NavLink 
+                                        to="/admin" 
+                                        className={({ isActive }) => 
+                                            `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                                                isActive 
+                                                    ? 'border-indigo-500 text-gray-900' 
+                                                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                                            }`
+                                        }
+                                        end
+                                    >
+                                        Admin
+                                    </NavLink>
+                                )}
+
+                                {hasRole(user?.role, 'admin') && (
+                                    <NavLink 
+                                        to="/admin/users" 
+                                        className={({ isActive }) => 
+                                            `inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium ${
+                                                isActive 
+                                                    ? 'border-indigo-500 text-gray-900' 
+                                                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                                            }`
+                                        }
+                                        end
+                                    >
+                                        Users
+                                    </NavLink>
+                                )}
                             </nav>
                         </div>
                         <div className="hidden sm:flex items-center justify-center sm:justify-end mt-3 sm:mt-0">
@@ -5,9 +5,12 @@ import { RouterProvider, createBrowserRouter } from 'react-router-dom'
 import MainLayout from './layouts/MainLayout';
 import Login from './pages/Login';
 import Home from './pages/Home';
+import PackageDetail from './pages/PackageDetail';
+import DuplicateReview from './pages/DuplicateReview';
 import Admin from './pages/Admin';
+import UserManagement from './pages/UserManagement';
 import { AuthProvider } from './contexts/AuthContext';
-import { ProtectedRoute, PublicRoute } from './components/AuthRoute';
+import { ProtectedRoute, PublicRoute, RequireRole } from './components/AuthRoute';
 
 const router = createBrowserRouter([
   {
@@ -31,8 +34,32 @@ const router = createBrowserRouter([
         element: <Home />
       },
       {
-        path: "admin",          
-        element: <Admin />      
+        path: "packages/:tracking",
+        element: <PackageDetail />
+      },
+      {
+        path: "duplicates",
+        element: (
+          <RequireRole role="supervisor">
+            <DuplicateReview />
+          </RequireRole>
+        )
+      },
+      {
+        path: "admin",
+        element: (
+          <RequireRole role="admin">
+            <Admin />
+          </RequireRole>
+        )
+      },
+      {
+        path: "admin/users",
+        element: (
+          <RequireRole role="admin">
+            <UserManagement />
+          </RequireRole>
+        )
       },
     ],
   }
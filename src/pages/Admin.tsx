@@ -1,76 +1,79 @@
-import { useState } from "react";
-import { db } from "@/config/firebase";
-import { collection, deleteDoc, getDocs } from "firebase/firestore";
+import { useCallback, useEffect, useState } from "react";
 import toast from "react-hot-toast";
 import { Button } from "../components/ui/button";
-import { DatePicker } from "@/components/ui/date-picker";
+import { rebuildDailyStats } from "@/services/statsService";
+import { backfillSearchFields } from "@/services/packageService";
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle
-} from "@/components/ui/dialog";
+  discardDeleteJob,
+  getUnfinishedDeleteJobs,
+  type DeleteJob
+} from "@/services/bulkDeleteService";
+import CarrierMappingSection from "@/components/CarrierMappingSection";
+import AuditLogSection from "@/components/AuditLogSection";
+import BulkDeleteDialog from "@/components/BulkDeleteDialog";
+import RecycleBinSection from "@/components/RecycleBinSection";
+import RetentionSection from "@/components/RetentionSection";
+
+type AdminTab = "tools" | "trash" | "retention" | "audit";
+
+const ADMIN_TABS: { id: AdminTab; label: string }[] = [
+  { id: "tools", label: "Tools" },
+  { id: "trash", label: "Recycle Bin" },
+  { id: "retention", label: "Retention" },
+  { id: "audit", label: "Audit Log" },
+];
 
 const Admin = () => {
+  const [activeTab, setActiveTab] = useState<AdminTab>("tools");
   const [showDeleteModal, setShowDeleteModal] = useState(false);
-  const [startDate, setStartDate] = useState<Date | undefined>(undefined);
-  const [endDate, setEndDate] = useState<Date | undefined>(undefined);
-  const [isDeleting, setIsDeleting] = useState(false);
-
-  const handleDeleteByDateRange = async () => {
-    if (!startDate || !endDate) {
-      toast("Please select both start and end dates");
-      return;
-    }
+  const [resumeJob, setResumeJob] = useState<DeleteJob | null>(null);
+  const [unfinishedJobs, setUnfinishedJobs] = useState<DeleteJob[]>([]);
+  const [isRebuildingStats, setIsRebuildingStats] = useState(false);
+  const [isBackfilling, setIsBackfilling] = useState(false);
 
-    if (endDate < startDate) {
-      toast("End date cannot be before start date");
-      return;
-    }
+  const loadUnfinishedJobs = useCallback(async () => {
+    setUnfinishedJobs(await getUnfinishedDeleteJobs());
+  }, []);
+
+  useEffect(() => {
+    loadUnfinishedJobs();
+  }, [loadUnfinishedJobs]);
 
-    const diffDays = Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 3600 * 24)
-    );
-    if (diffDays > 90) {
-      toast("Date range cannot exceed 90 days");
-      return;
+  const handleRebuildStats = async () => {
+    try {
+      setIsRebuildingStats(true);
+      const result = await rebuildDailyStats();
+      toast.success(`Rebuilt statistics for ${result.days} days from ${result.packages} packages`);
+    } catch (error) {
+      toast.error(`Error rebuilding statistics: ${error}`);
+    } finally {
+      setIsRebuildingStats(false);
     }
+  };
 
+  const handleBackfillSearchFields = async () => {
     try {
-      setIsDeleting(true);
-      const startTimestamp = new Date(
-        startDate.getFullYear(),
-        startDate.getMonth(),
-        startDate.getDate()
-      ).toISOString();
-
-      const endCopy = new Date(endDate);
-      endCopy.setHours(23, 59, 59, 999);
-      const endTimestamp = endCopy.toISOString();
-
-      const packagesRef = collection(db, "packages");
-      const packagesSnapshot = await getDocs(packagesRef);
-
-      let deletedCount = 0;
-
-      for (const doc of packagesSnapshot.docs) {
-        const pkg = doc.data();
-        if (pkg.timestamp >= startTimestamp && pkg.timestamp <= endTimestamp) {
-          await deleteDoc(doc.ref);
-          deletedCount++;
-        }
-      }
-
-      toast.success(`Successfully deleted ${deletedCount} packages`);
-      setShowDeleteModal(false);
-      setStartDate(undefined);
-      setEndDate(undefined);
+      setIsBackfilling(true);
+      const result = await backfillSearchFields();
+      toast.success(`Updated search fields on ${result.updated} of ${result.packages} packages`);
     } catch (error) {
-      toast.error(`Error deleting packages: ${error}`);
+      toast.error(`Error backfilling search fields: ${error}`);
     } finally {
-      setIsDeleting(false);
+      setIsBackfilling(false);
+    }
+  };
+
+  const handleResumeJob = (job: DeleteJob) => {
+    setResumeJob(job);
+    setShowDeleteModal(true);
+  };
+
+  const handleDiscardJob = async (job: DeleteJob) => {
+    try {
+      await discardDeleteJob(job);
+      await loadUnfinishedJobs();
+    } catch (error) {
+      toast.error(`Error discarding deletion: ${error}`);
     }
   };
 
@@ -78,9 +81,33 @@ const Admin = () => {
     <div className="p-6 bg-white rounded-lg shadow-md">
       <h1 className="text-2xl font-semibold mb-4">Admin Tools</h1>
       <p className="text-gray-600 mb-6">
-        Perform administrative operations such as bulk deletion of packages.
+        Perform administrative operations such as bulk deletion of packages, rebuilding the dashboard statistics or mapping carrier names.
       </p>
 
+      <div className="flex border-b border-gray-200 mb-6">
+        {ADMIN_TABS.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium ${
+              activeTab === tab.id
+                ? 'border-indigo-500 text-gray-900'
+                : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "trash" && <RecycleBinSection />}
+
+      {activeTab === "retention" && <RetentionSection />}
+
+      {activeTab === "audit" && <AuditLogSection />}
+
+      {activeTab === "tools" && (
+      <>
       {/* Delete by range button */}
         <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -96,67 +123,69 @@ const Admin = () => {
               Delete by Date Range
             </Button>
           </div>
-           </div>
-            </div>
-
-      {/* Delete Modal using shadcn Dialog */}
-      <Dialog open={showDeleteModal} onOpenChange={setShowDeleteModal}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Delete Packages by Date Range</DialogTitle>
-            <DialogDescription>
-              Select a date range to permanently delete package data. This action cannot be undone.
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4 py-2">
-            <DatePicker
-              date={startDate}
-              setDate={setStartDate}
-              label="Start Date"
-              placeholder="Select start date"
-            />
-            
-            <DatePicker
-              date={endDate}
-              setDate={setEndDate}
-              label="End Date"
-              placeholder="Select end date"
-            />
-            
-            <div className="flex flex-col space-y-2">
-              <p className="text-sm text-red-500 font-medium">Warning: This action cannot be undone</p>
-              <p className="text-xs text-gray-500">All packages within the selected date range will be permanently deleted.</p>
-            </div>
-          </div>
-          
-          <DialogFooter>
-            <Button 
+         <div className="col-span-1 flex items-end">
+            <Button
               variant="outline"
-              onClick={() => setShowDeleteModal(false)}
+              className="w-full flex items-center justify-center"
+              onClick={handleRebuildStats}
+              disabled={isRebuildingStats}
+              title="Recalculate the daily scan counters used by the dashboard KPIs from all packages"
             >
-              Cancel
+              {isRebuildingStats ? 'Rebuilding Statistics...' : 'Rebuild Statistics'}
             </Button>
-            <Button 
-              variant="destructive"
-              onClick={handleDeleteByDateRange}
-              disabled={!startDate || !endDate || isDeleting}
+          </div>
+         <div className="col-span-1 flex items-end">
+            <Button
+              variant="outline"
+              className="w-full flex items-center justify-center"
+              onClick={handleBackfillSearchFields}
+              disabled={isBackfilling}
+              title="Add the fields used by the dashboard search and carrier filters to packages scanned before they existed"
             >
-              {isDeleting ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Deleting...
-                </>
-              ) : (
-                'Delete Packages'
-              )}
+              {isBackfilling ? 'Backfilling Search Fields...' : 'Backfill Search Fields'}
             </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+          </div>
+           </div>
+            </div>
+
+      {/* Deletions that were cancelled or interrupted before finishing */}
+      {unfinishedJobs.length > 0 && (
+        <div className="flex flex-col space-y-3 mb-6 bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
+          <h2 className="text-sm font-semibold text-yellow-800">Unfinished Deletions</h2>
+          {unfinishedJobs.map(job => (
+            <div key={job.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+              <span className="text-yellow-900">
+                {job.startYmd} to {job.endYmd}: {job.deleted} of {job.expected} packages deleted by {job.createdBy}
+                {job.updatedAt && ` (last activity ${job.updatedAt.toDate().toLocaleString()})`}
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="destructive" onClick={() => handleResumeJob(job)} disabled={showDeleteModal}>
+                  Resume
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleDiscardJob(job)} disabled={showDeleteModal}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Raw carrier value -> canonical carrier mapping */}
+      <CarrierMappingSection />
+      </>
+      )}
+
+      {/* Batched delete with preview; also resumes unfinished jobs */}
+      <BulkDeleteDialog
+        open={showDeleteModal}
+        onOpenChange={(open) => {
+          setShowDeleteModal(open);
+          if (!open) setResumeJob(null);
+        }}
+        resumeJob={resumeJob}
+        onFinished={loadUnfinishedJobs}
+      />
     </div>
   );
 };
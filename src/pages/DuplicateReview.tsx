@@ -0,0 +1,307 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Button } from "../components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { getCarrierName } from "@/config/carriers";
+import { getDeviceLabelFromCache } from "@/config/deviceLabels";
+import { hasRole } from "@/config/roles";
+import { useAuth } from "@/contexts/useAuth";
+import { getPackageScans, type PackageScan } from "@/services/packageService";
+import {
+  DEFAULT_DUPLICATE_SETTINGS,
+  getDuplicateGroups,
+  getDuplicateSettings,
+  reviewDuplicateGroup,
+  saveDuplicateSettings,
+  type DuplicateGroup,
+  type DuplicateGroupStatus,
+  type DuplicateSettings
+} from "@/services/duplicateService";
+
+const STATUS_TABS: { id: DuplicateGroupStatus; label: string }[] = [
+  { id: "pending", label: "To Review" },
+  { id: "confirmed", label: "Confirmed" },
+  { id: "dismissed", label: "Dismissed" },
+];
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Detection rules; only admins can change them
+const DuplicateSettingsCard = () => {
+  const [saved, setSaved] = useState<DuplicateSettings>(DEFAULT_DUPLICATE_SETTINGS);
+  const [draft, setDraft] = useState<DuplicateSettings>(DEFAULT_DUPLICATE_SETTINGS);
+  const [windowInput, setWindowInput] = useState(String(DEFAULT_DUPLICATE_SETTINGS.windowMinutes));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getDuplicateSettings().then(settings => {
+      setSaved(settings);
+      setDraft(settings);
+      setWindowInput(String(settings.windowMinutes));
+    });
+  }, []);
+
+  const next = { ...draft, windowMinutes: Number(windowInput) };
+  const isDirty = JSON.stringify(next) !== JSON.stringify(saved);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await saveDuplicateSettings(next);
+      setSaved(next);
+      toast.success("Duplicate detection rules saved");
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Detection Rules</h2>
+        <p className="text-sm text-gray-500">
+          A scan is flagged when the same tracking number was already scanned within the time window.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium h-9">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+          />
+          Detect duplicates
+        </label>
+        <div className="grid gap-1.5">
+          <label htmlFor="duplicate-window" className="text-sm font-medium">Time window (minutes)</label>
+          <Input
+            id="duplicate-window"
+            type="number"
+            min={1}
+            value={windowInput}
+            onChange={(e) => setWindowInput(e.target.value)}
+            className="w-[160px]"
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <label className="text-sm font-medium">Counts as duplicate</label>
+          <Select
+            value={draft.scope}
+            onValueChange={(value) => setDraft({ ...draft, scope: value as DuplicateSettings["scope"] })}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="same-device">Same device only</SelectItem>
+              <SelectItem value="any-device">Any device</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium h-9">
+          <input
+            type="checkbox"
+            checked={draft.excludeFromKpis}
+            onChange={(e) => setDraft({ ...draft, excludeFromKpis: e.target.checked })}
+          />
+          Exclude duplicates from KPIs
+        </label>
+        <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving ? "Saving..." : "Save Rules"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const DuplicateReview = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<DuplicateGroupStatus>("pending");
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyGroupId, setBusyGroupId] = useState<string | null>(null);
+
+  // Scans of the expanded group
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+  const [scans, setScans] = useState<PackageScan[]>([]);
+
+  const loadGroups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setGroups(await getDuplicateGroups(status));
+    } catch (error) {
+      toast.error(`Error loading duplicates: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setExpandedGroupId(null);
+    loadGroups();
+  }, [loadGroups]);
+
+  const handleToggleGroup = async (group: DuplicateGroup) => {
+    if (expandedGroupId === group.id) {
+      setExpandedGroupId(null);
+      return;
+    }
+    setExpandedGroupId(group.id);
+    setScans([]);
+    try {
+      setScans(await getPackageScans(group.tracking));
+    } catch (error) {
+      toast.error(`Error loading scans: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleReview = async (group: DuplicateGroup, decision: "confirmed" | "dismissed") => {
+    try {
+      setBusyGroupId(group.id);
+      await reviewDuplicateGroup(group, decision);
+      toast.success(`${group.tracking} ${decision === "confirmed" ? "confirmed as duplicate" : "dismissed"}`);
+      await loadGroups();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBusyGroupId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6 bg-white p-6 rounded-lg shadow-md">
+        <h1 className="text-2xl font-semibold mb-1">Duplicate Scans</h1>
+        <p className="text-gray-600">
+          Tracking numbers that were scanned more than once. Confirm real duplicates or dismiss groups that are legitimate rescans.
+        </p>
+      </div>
+
+      {hasRole(user?.role, "admin") && <DuplicateSettingsCard />}
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex border-b border-gray-200 mb-4">
+          {STATUS_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setStatus(tab.id)}
+              className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium ${
+                status === tab.id
+                  ? 'border-indigo-500 text-gray-900'
+                  : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full bg-white">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Tracking Number</th>
+                <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Scans</th>
+                <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Devices</th>
+                <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Last Detected</th>
+                <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+                </tr>
+              ) : groups.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">No duplicate groups</td>
+                </tr>
+              ) : groups.map(group => {
+                const isBusy = busyGroupId === group.id;
+                return (
+                  <Fragment key={group.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm">
+                        <Link
+                          to={`/packages/${encodeURIComponent(group.tracking)}`}
+                          className="text-indigo-600 hover:text-indigo-800 hover:underline font-mono"
+                        >
+                          {group.tracking}
+                        </Link>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900">{group.packageIds.length}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {group.deviceIds.map(id => getDeviceLabelFromCache(id)).join(", ")}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-500">
+                        {group.lastDetectedAt ? format(group.lastDetectedAt.toDate(), "MMM d, yyyy HH:mm") : ""}
+                        {group.reviewedBy && <div className="text-xs">Reviewed by {group.reviewedBy}</div>}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <div className="flex items-center gap-2">
+                          {group.status !== "confirmed" && (
+                            <Button size="sm" variant="destructive" onClick={() => handleReview(group, "confirmed")} disabled={isBusy}>
+                              Confirm
+                            </Button>
+                          )}
+                          {group.status !== "dismissed" && (
+                            <Button size="sm" variant="outline" onClick={() => handleReview(group, "dismissed")} disabled={isBusy}>
+                              Dismiss
+                            </Button>
+                          )}
+                          <Button size="sm" variant="ghost" onClick={() => handleToggleGroup(group)}>
+                            {expandedGroupId === group.id ? "Hide Scans" : "Scans"}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedGroupId === group.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="py-3 px-6 text-sm">
+                          {scans.length === 0 ? (
+                            <p className="text-gray-500">Loading...</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {scans.map(scan => (
+                                <li key={scan.id} className="text-gray-700">
+                                  {scan.timestamp ? format(new Date(scan.timestamp), "MMM d, yyyy HH:mm:ss") : "N/A"}
+                                  {" · "}{getDeviceLabelFromCache(scan.deviceId)}
+                                  {" · "}{getCarrierName(scan.carrier)}
+                                  {scan.username && ` · ${scan.username}`}
+                                  {scan.id === group.originalId && (
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-700">Original</span>
+                                  )}
+                                  {group.packageIds.includes(scan.id) && scan.id !== group.originalId && (
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-700">Duplicate</span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -1,34 +1,289 @@
 import { Input } from '@/components/ui/input'
+import { DateRangePicker } from '@/components/ui/date-picker-range'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { db } from '@/config/firebase'
 import { getDeviceLabelFromCache } from '@/config/deviceLabels'
+import { getCarrierName, groupCarrierNames } from '@/config/carriers'
+import { assessScan, getScannedTrackingNumber, normalizeTrackingNumber } from '@/config/trackingNumbers'
+import { useCarrierRegistry } from '@/hooks/useCarrierRegistry'
+import { useUrlParams, type UrlParamChanges } from '@/hooks/useUrlParams'
 import { getAllDevices } from '@/services/deviceService'
-import { collection, getDocs } from 'firebase/firestore'
-import { useCallback, useEffect, useState } from 'react'
+import { getUserPreferences, saveUserPreferences } from '@/services/preferencesService'
+import { TRACKING_GRAM_MAX, TRACKING_GRAM_MIN } from '@/services/packageService'
+import type { SavedSearch } from '@/services/savedSearchService'
+import { getSeenCarrierNames, getSeenOperatorNames } from '@/services/statsService'
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { eachDayOfInterval, format, isValid, parse, startOfMonth, subDays } from 'date-fns'
+import BarcodeScanModal from '../components/BarcodeScanModal'
+import BulkLookupModal from '../components/BulkLookupModal'
+import ColumnChooser from '../components/ColumnChooser'
 import DashboardHeader from '../components/DashboardHeader'
 import KpiSummaryRow from '../components/KpiSummaryRow'
+import MultiSelectFilter from '../components/MultiSelectFilter'
+import OperatorBreakdown from '../components/OperatorBreakdown'
+import SavedSearches from '../components/SavedSearches'
 import { Button } from '../components/ui/button'
 import { useAuth } from '../contexts/useAuth'
-import { useFirestoreSearchWithServerSidePagination, type SearchFilter } from './useFirestoreSearchWithServerSidePagination'
+import {
+  useFirestoreSearchWithServerSidePagination,
+  type SearchFilter,
+} from './useFirestoreSearchWithServerSidePagination'
+
+type SortField = "tracking" | "carrier" | "timestamp" | "deviceId";
+
+type PackageColumnId = "carrier" | "timestamp" | "deviceId" | "location" | "username" | "coordinates" | "dateYmd";
+
+// Columns after S.No and Tracking Number, in display order; users choose which ones they see
+const PACKAGE_COLUMNS: { id: PackageColumnId; label: string; sortField?: SortField; defaultVisible: boolean }[] = [
+  { id: "carrier", label: "Carrier", sortField: "carrier", defaultVisible: true },
+  { id: "timestamp", label: "Timestamp", sortField: "timestamp", defaultVisible: true },
+  { id: "deviceId", label: "Device ID", sortField: "deviceId", defaultVisible: true },
+  { id: "username", label: "Operator", defaultVisible: true },
+  { id: "location", label: "Location", defaultVisible: true },
+  { id: "coordinates", label: "Lat / Long", defaultVisible: false },
+  { id: "dateYmd", label: "Scan Date", defaultVisible: false },
+];
+
+const DEFAULT_COLUMNS = PACKAGE_COLUMNS.filter(column => column.defaultVisible).map(column => column.id);
+
+const SORT_LABELS: Record<SortField, string> = {
+  tracking: "tracking number",
+  carrier: "carrier",
+  timestamp: "timestamp",
+  deviceId: "device",
+};
+
+// Field each sort orders the query by. The raw carrier field is a map, a JSON string or
+// a quoted string depending on the scanner version, so carriers sort on the normalized
+// carrierName the onPackageSearchFields function maintains.
+const SORT_QUERY_FIELDS: Record<SortField, string> = {
+  tracking: "tracking",
+  carrier: "carrierName",
+  timestamp: "timestamp",
+  deviceId: "deviceId",
+};
+
+type DatePreset = "any" | "today" | "yesterday" | "last7" | "thisMonth" | "custom";
+
+const DATE_PRESETS: { id: DatePreset; label: string }[] = [
+  { id: "any", label: "Any Date" },
+  { id: "today", label: "Today" },
+  { id: "yesterday", label: "Yesterday" },
+  { id: "last7", label: "Last 7 Days" },
+  { id: "thisMonth", label: "This Month" },
+  { id: "custom", label: "Custom Range" },
+];
+
+type TrackingMatch = "prefix" | "suffix" | "contains" | "exact";
+
+const TRACKING_MATCHES: { id: TrackingMatch; label: string }[] = [
+  { id: "prefix", label: "Starts with" },
+  { id: "suffix", label: "Ends with" },
+  { id: "contains", label: "Contains" },
+  { id: "exact", label: "Exact" },
+];
+
+const reverse = (value: string) => value.split("").reverse().join("");
+
+/**
+ * Where a tracking search matched a tracking number, as [start, end) in the
+ * number as displayed. Spaces and dashes are skipped the way the index skips them.
+ */
+const findTrackingMatch = (value: string, search: string, match: TrackingMatch): [number, number] | null => {
+  const kept = value.split("").flatMap((char, index) => /[\s-]/.test(char) ? [] : [{ char: char.toUpperCase(), index }]);
+  const normalized = kept.map(({ char }) => char).join("");
+  const needle = normalizeTrackingNumber(search);
+  if (!needle) return null;
+
+  const at = match === "suffix"
+    ? (normalized.endsWith(needle) ? normalized.length - needle.length : -1)
+    : match === "contains"
+      ? normalized.indexOf(needle)
+      : match === "exact" ? (normalized === needle ? 0 : -1) : (normalized.startsWith(needle) ? 0 : -1);
+  return at < 0 ? null : [kept[at].index, kept[at + needle.length - 1].index + 1];
+};
+
+// USB barcode scanners type the whole number in a quick burst, then press Enter
+const WEDGE_MAX_KEY_INTERVAL_MS = 50;
+const WEDGE_MIN_LENGTH = 8;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Fields Firestore orders by first when they carry the query's range filter
+const RANGE_FIELD_LABELS: Record<string, string> = {
+  tracking: "tracking number",
+  dateYmd: "scan date",
+  scanHour: "hour of day",
+  trackingReversed: "tracking number ending",
+  carrierName: "carrier",
+  deviceId: "device",
+};
+
+/** The days a date preset covers, or null for any date */
+const getPresetRange = (preset: Exclude<DatePreset, "custom">, now = new Date()): { startDate: Date; endDate: Date } | null => {
+  switch (preset) {
+    case "today":
+      return { startDate: now, endDate: now };
+    case "yesterday":
+      return { startDate: subDays(now, 1), endDate: subDays(now, 1) };
+    case "last7":
+      return { startDate: subDays(now, 6), endDate: now };
+    case "thisMonth":
+      return { startDate: startOfMonth(now), endDate: now };
+    default:
+      return null;
+  }
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+// Timestamps start newest first, everything else A to Z
+const defaultSortDirection = (field: SortField): "asc" | "desc" => field === "timestamp" ? "desc" : "asc";
+
+// Dates in the URL, e.g. ?date=custom&from=2025-01-01&to=2025-01-31
+const URL_DATE_FORMAT = "yyyy-MM-dd";
+
+const parseUrlDate = (value: string | null): Date | null => {
+  const date = value ? parse(value, URL_DATE_FORMAT, new Date()) : null;
+  return date && isValid(date) ? date : null;
+};
+
+// URL params that make up a search; saved searches store and restore exactly these
+const SEARCH_PARAM_KEYS = ["q", "match", "carrier", "device", "operator", "date", "from", "to", "hourFrom", "hourTo", "sort", "dir"];
+
+/** A list param such as ?carrier=fedex,ups */
+const parseUrlList = (value: string | null): string[] => value ? value.split(",").filter(Boolean) : [];
+
+/**
+ * Filter for a multi-select: "in" the chosen values. Past Firestore's limit
+ * the search hook splits it into several queries. A "not-in" the values left
+ * out would be fewer queries, but it would also find values missing from the
+ * list and skip packages without the field.
+ * Null when nothing or everything is chosen.
+ */
+const toMultiSelectFilter = (field: string, chosen: string[], all: string[]): SearchFilter | null => {
+  if (!chosen.length || (all.length > 0 && all.every(value => chosen.includes(value)))) return null;
+  return { field, op: "in", value: chosen };
+};
+
+/** An hour from the URL as a Select value: "any" or "0" to "23" */
+const parseUrlHour = (value: string | null): string =>
+  value !== null && HOURS.includes(Number(value)) ? String(Number(value)) : "any";
 
 const Home = () => {
   const { user, logout } = useAuth();
-  const [availableCarriers, setAvailableCarriers] = useState<string[]>([]);
+  const [rawCarrierNames, setRawCarrierNames] = useState<string[]>([]);
   const [availableDevices, setAvailableDevices] = useState<string[]>([]);
-
-  const [tracking, setTracking] = useState("");
-  const [carrier, setCarrier] = useState("all"); // Initialize with "all" instead of empty string
-  const [deviceId, setDeviceId] = useState("all"); // Device ID filter
+  const [availableOperators, setAvailableOperators] = useState<string[]>([]);
+  const [showScanModal, setShowScanModal] = useState(false);
+  const [showBulkLookupModal, setShowBulkLookupModal] = useState(false);
+
+  // Filters, sort and page live in the URL so a refresh or a shared link opens the same view.
+  // Defaults are left out of it.
+  const { searchParams, updateParams } = useUrlParams();
+  const tracking = searchParams.get("q") ?? "";
+  const trackingMatch = TRACKING_MATCHES.find(match => match.id === searchParams.get("match"))?.id ?? "prefix";
+  const carriers = parseUrlList(searchParams.get("carrier")); // Canonical carrier IDs; none chosen means all
+  const deviceIds = parseUrlList(searchParams.get("device"));
+  const operator = searchParams.get("operator") ?? "all"; // Username of the operator who scanned
+  const datePreset = DATE_PRESETS.find(preset => preset.id === searchParams.get("date"))?.id ?? "any";
+  const fromParam = searchParams.get("from");
+  const toParam = searchParams.get("to");
+  const customRange = useMemo(
+    () => ({ startDate: parseUrlDate(fromParam), endDate: parseUrlDate(toParam) }),
+    [fromParam, toParam]
+  );
+  const hourFrom = parseUrlHour(searchParams.get("hourFrom")); // "any" or an hour 0-23
+  const hourTo = parseUrlHour(searchParams.get("hourTo"));
+  const sortParam = searchParams.get("sort");
+  const sortField: SortField = sortParam && sortParam in SORT_LABELS ? sortParam as SortField : "timestamp";
+  const dirParam = searchParams.get("dir");
+  const sortDirection = dirParam === "asc" || dirParam === "desc" ? dirParam : defaultSortDirection(sortField);
+  const urlPage = Math.max(1, Number.parseInt(searchParams.get("page") ?? "", 10) || 1);
+
+  // Changing a filter or the sort starts over at page 1
+  const updateFilterParams = (changes: UrlParamChanges) => updateParams({ ...changes, page: null });
+  const setTracking = (value: string) => updateFilterParams({ q: value || null });
+  const setTrackingMatch = (value: TrackingMatch) => updateFilterParams({ match: value === "prefix" ? null : value });
+  const setCarriers = (values: string[]) => updateFilterParams({ carrier: values.length ? values.join(",") : null });
+  const setDeviceIds = (values: string[]) => updateFilterParams({ device: values.length ? values.join(",") : null });
+  const setOperator = (value: string) => updateFilterParams({ operator: value === "all" ? null : value });
+  const setDatePreset = (value: DatePreset) => updateFilterParams({
+    date: value === "any" ? null : value,
+    // A custom range is only kept while it's the chosen preset
+    ...(value !== "custom" && { from: null, to: null }),
+  });
+  const setCustomRange = (range: { startDate: Date | null; endDate: Date | null }) => updateFilterParams({
+    from: range.startDate ? format(range.startDate, URL_DATE_FORMAT) : null,
+    to: range.endDate ? format(range.endDate, URL_DATE_FORMAT) : null,
+  });
+  const setHourFrom = (value: string) => updateFilterParams({ hourFrom: value === "any" ? null : value });
+  const setHourTo = (value: string) => updateFilterParams({ hourTo: value === "any" ? null : value });
+
+  const [visibleColumns, setVisibleColumns] = useState<PackageColumnId[]>(DEFAULT_COLUMNS);
+  const columns = PACKAGE_COLUMNS.filter(column => visibleColumns.includes(column.id));
+
+  // Group raw carrier values by canonical carrier; regrouped when admins change the mapping
+  const { version: carrierRegistryVersion } = useCarrierRegistry();
+  const availableCarriers = useMemo(
+    () => groupCarrierNames(rawCarrierNames),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [rawCarrierNames, carrierRegistryVersion]
+  );
 
 
 
   // 👇 Build dynamic filters based on input values
   const filters = [];
-  if (tracking) filters.push({ field: "tracking", op: "startsWith", value: tracking });
-  // Only add carrier filter if it's not the "all" value
-  if (carrier && carrier !== "all") filters.push({ field: "carrier", op: "==", value: carrier });
-  // Only add device ID filter if it's not the "all" value
-  if (deviceId && deviceId !== "all") filters.push({ field: "deviceId", op: "==", value: deviceId });
+  // Suffix, contains and exact searches run on the index the onPackageSearchFields function maintains
+  const normalizedTracking = normalizeTrackingNumber(tracking);
+  const containsTooShort = trackingMatch === "contains" && normalizedTracking !== ""
+    && normalizedTracking.length < TRACKING_GRAM_MIN;
+  // Longer pieces aren't indexed: search on the first one and narrow each page down to the whole search
+  const containsNarrowed = trackingMatch === "contains" && normalizedTracking.length > TRACKING_GRAM_MAX;
+  if (tracking && trackingMatch === "prefix") {
+    filters.push({ field: "tracking", op: "startsWith", value: tracking });
+  } else if (normalizedTracking && trackingMatch === "suffix") {
+    filters.push({ field: "trackingReversed", op: "startsWith", value: reverse(normalizedTracking) });
+  } else if (normalizedTracking && trackingMatch === "contains" && !containsTooShort) {
+    filters.push({ field: "trackingGrams", op: "array-contains", value: normalizedTracking.slice(0, TRACKING_GRAM_MAX) });
+  } else if (normalizedTracking && trackingMatch === "exact") {
+    filters.push({ field: "trackingReversed", op: "==", value: reverse(normalizedTracking) });
+  }
+  // Chosen carriers match every raw spelling of each carrier. carrierName is maintained by the
+  // onPackageSearchFields function, so carriers stored as objects or JSON match too.
+  const carrierFilter = toMultiSelectFilter(
+    "carrierName",
+    availableCarriers.filter(option => carriers.includes(option.carrier.id)).flatMap(option => option.rawNames),
+    availableCarriers.flatMap(option => option.rawNames)
+  );
+  if (carrierFilter) filters.push(carrierFilter);
+  const deviceFilter = toMultiSelectFilter("deviceId", deviceIds, availableDevices);
+  if (deviceFilter) filters.push(deviceFilter);
+  if (operator !== "all") filters.push({ field: "username", op: "==", value: operator });
+  // Date range on dateYmd; the listed days let it become an "in" filter next to a tracking search
+  const dateRange = datePreset === "custom" ? customRange : getPresetRange(datePreset);
+  if (dateRange?.startDate && dateRange.endDate) {
+    const startYmd = format(dateRange.startDate, "yyyyMMdd");
+    const endYmd = format(dateRange.endDate, "yyyyMMdd");
+    if (startYmd === endYmd) {
+      filters.push({ field: "dateYmd", op: "==", value: startYmd });
+    } else {
+      const days = eachDayOfInterval({ start: dateRange.startDate, end: dateRange.endDate });
+      filters.push({ field: "dateYmd", op: "between", value: [startYmd, endYmd], values: days.map(day => format(day, "yyyyMMdd")) });
+    }
+  }
+  // Hour-of-day window on scanHour; a window past midnight (22:00 to 06:00) wraps around
+  if (hourFrom !== "any" || hourTo !== "any") {
+    const from = hourFrom === "any" ? 0 : Number(hourFrom);
+    const to = hourTo === "any" ? 23 : Number(hourTo);
+    const hours = HOURS.filter(hour => from <= to ? hour >= from && hour <= to : hour >= from || hour <= to);
+    filters.push(from <= to
+      ? { field: "scanHour", op: "between", value: [from, to], values: hours }
+      : { field: "scanHour", op: "in", value: hours });
+  }
 
 
   const {
@@ -40,11 +295,14 @@ const Home = () => {
     totalCount,
     hasPrev,
     hasNext,
-    prevPage,
-    nextPage,
     goToPage,
     reset,
+    newIds,
+    newCount,
+    orderedBy,
+    sortFallback,
   } = useFirestoreSearchWithServerSidePagination<{
+    id: string;
     tracking: string;
     carrier: string;
     timestamp: string;
@@ -52,6 +310,7 @@ const Home = () => {
     latitude?: number;
     longitude?: number;
     username?: string;
+    dateYmd?: string;
   }>(
     db,
     "packages",
@@ -59,34 +318,76 @@ const Home = () => {
       pageSize: 50,
       filters: filters as SearchFilter[],
       withTotalCount: true,
+      live: true,
+      orderByField: SORT_QUERY_FIELDS[sortField],
+      direction: sortDirection,
+      startPage: urlPage,
     }
   );
 
+  const shownPackages = containsNarrowed
+    ? packages.filter(pkg => findTrackingMatch(pkg.tracking, tracking, "contains"))
+    : packages;
 
-  const fetchAllCarriers = useCallback(async () => {
-    try {
-      const packagesCollection = collection(db, 'packages');
-      const packagesSnapshot = await getDocs(packagesCollection);
+  // Page changes go into the URL too; page 1 is left out
+  const showPage = (target: number) => {
+    updateParams({ page: target > 1 ? String(target) : null });
+    goToPage(target);
+  };
 
-      const carriers = new Set<string>();
+  const savedSearchParams = new URLSearchParams(
+    SEARCH_PARAM_KEYS.flatMap(key => searchParams.has(key) ? [[key, searchParams.get(key) as string]] : [])
+  ).toString();
 
-      packagesSnapshot.forEach(doc => {
-        const data = doc.data();
+  // Saved searches replace every search param, so filters they don't set are cleared
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    const saved = new URLSearchParams(search.params);
+    updateFilterParams(Object.fromEntries(SEARCH_PARAM_KEYS.map(key => [key, saved.get(key)])));
+  };
 
-        // Extract carrier name
-        let carrierName: string;
-        if (typeof data.carrier === 'string') {
-          carrierName = data.carrier;
-        } else if (data.carrier && typeof data.carrier === 'object') {
-          carrierName = (data.carrier as { name?: string }).name || 'Unknown';
-        } else {
-          carrierName = 'Unknown';
-        }
+  // A scanned barcode is a whole tracking number. It's looked up as an ending, so
+  // packages stored with the USPS routing code in front are found as well.
+  const searchScannedTracking = (value: string) => {
+    updateFilterParams({ q: getScannedTrackingNumber(value) || null, match: "suffix" });
+  };
 
-        carriers.add(carrierName);
-      });
+  // Times of the keys typed into the search box, to tell a barcode scanner from a person
+  const trackingKeyTimesRef = useRef<number[]>([]);
 
-      setAvailableCarriers(Array.from(carriers).sort());
+  const handleTrackingKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") {
+      if (e.key.length === 1) trackingKeyTimesRef.current = [...trackingKeyTimesRef.current, e.timeStamp].slice(-64);
+      return;
+    }
+
+    e.preventDefault();
+    const value = e.currentTarget.value.trim();
+    const times = trackingKeyTimesRef.current.slice(-value.length);
+    trackingKeyTimesRef.current = [];
+    const fromScanner = value.length >= WEDGE_MIN_LENGTH && times.length === value.length
+      && times.every((time, i) => i === 0 || time - times[i - 1] <= WEDGE_MAX_KEY_INTERVAL_MS);
+    if (fromScanner) {
+      searchScannedTracking(value);
+      // Selected, so the next scan replaces it
+      e.currentTarget.select();
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch (err) {
+      console.error('Error copying link:', err);
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+
+  const fetchAllCarriers = useCallback(async () => {
+    try {
+      // Raw carrier names come from the daily rollups instead of scanning every package
+      setRawCarrierNames(await getSeenCarrierNames());
     } catch (err) {
       console.error('Error fetching carriers:', err);
     }
@@ -107,15 +408,78 @@ const Home = () => {
   }, []);
 
 
+  // Filters as they were last reset; the filters a page is restored with aren't a change
+  const filterKey = JSON.stringify([tracking, trackingMatch, carriers, deviceIds, operator, datePreset, fromParam, toParam, hourFrom, hourTo]);
+  const resetFilterKeyRef = useRef(filterKey);
+
   useEffect(() => {
-    const t = setTimeout(() => reset(), 500); // wait 500ms after typing
+    if (filterKey === resetFilterKeyRef.current) return;
+    const t = setTimeout(() => {
+      resetFilterKeyRef.current = filterKey;
+      reset();
+    }, 500); // wait 500ms after typing
     return () => clearTimeout(t);
-  }, [tracking, carrier, deviceId, reset]);
+  }, [filterKey, reset]);
+
+  const fetchAllOperators = useCallback(async () => {
+    try {
+      // Operator usernames come from the daily rollups as well
+      setAvailableOperators(await getSeenOperatorNames());
+    } catch (err) {
+      console.error('Error fetching operators:', err);
+    }
+  }, []);
 
   useEffect(() => {
     fetchAllCarriers();
     fetchAllDevices();
-  }, [fetchAllCarriers, fetchAllDevices]);
+    fetchAllOperators();
+  }, [fetchAllCarriers, fetchAllDevices, fetchAllOperators]);
+
+  // Column choices follow the user from browser to browser
+  useEffect(() => {
+    if (!user?.id) return;
+    getUserPreferences(user.id).then(preferences => {
+      if (preferences.packageColumns) {
+        setVisibleColumns(preferences.packageColumns.filter((id): id is PackageColumnId =>
+          PACKAGE_COLUMNS.some(column => column.id === id)
+        ));
+      }
+    });
+  }, [user?.id]);
+
+  const handleColumnsChange = (ids: string[]) => {
+    setVisibleColumns(ids as PackageColumnId[]);
+    if (user?.id) {
+      saveUserPreferences(user.id, { packageColumns: ids }).catch(() => {
+        toast.error("Couldn't save your column choices");
+      });
+    }
+  };
+
+  // Clicking the sorted column flips the direction; timestamps start newest first
+  const handleSort = (field: SortField) => {
+    const direction = field !== sortField ? defaultSortDirection(field) : sortDirection === "asc" ? "desc" : "asc";
+    updateFilterParams({
+      sort: field === "timestamp" ? null : field,
+      dir: direction === defaultSortDirection(field) ? null : direction,
+    });
+  };
+
+  const renderSortableHeader = (label: string, field: SortField) => (
+    <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">
+      <button
+        onClick={() => handleSort(field)}
+        className="inline-flex items-center uppercase tracking-wider hover:text-gray-900"
+        title={`Sort by ${SORT_LABELS[field]}`}
+      >
+        {label}
+        {orderedBy === SORT_QUERY_FIELDS[field] && (
+          <span className="ml-1 text-indigo-600">{sortDirection === "asc" ? "▲" : "▼"}</span>
+        )}
+      </button>
+    </th>
+  );
 
 
   const pagesToShow = 5; // windowed buttons
@@ -156,78 +520,184 @@ const Home = () => {
       {/* KPI Summary Row */}
       <KpiSummaryRow />
 
+      {/* Per-operator scan counts; clicking an operator filters the table */}
+      <OperatorBreakdown selected={operator} onSelect={setOperator} />
+
       {/* Charts Section */}
       {/* <ChartsSection /> */}
 
 
 
-      <h2 className="text-xl font-semibold mb-3">Recent Packages</h2>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-semibold">Recent Packages</h2>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowBulkLookupModal(true)} title="Look up a list of tracking numbers">
+            <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            Bulk Lookup
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleCopyLink} title="Copy a link to this view">
+            <svg className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+            </svg>
+            Copy Link
+          </Button>
+          <ColumnChooser
+            columns={PACKAGE_COLUMNS}
+            visible={visibleColumns}
+            onChange={handleColumnsChange}
+          />
+        </div>
+      </div>
+
+      <SavedSearches
+        current={{
+          filters: filters as SearchFilter[],
+          sort: { field: SORT_QUERY_FIELDS[sortField], direction: sortDirection },
+          params: savedSearchParams,
+        }}
+        onApply={handleApplySavedSearch}
+      />
       <div className="flex flex-col space-y-4 mb-6 bg-white p-6 rounded-lg shadow-md">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {/* Tracking input */}
           <div className="col-span-1">
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
-                </svg>
+            <div className="flex gap-2">
+              <div className="relative flex-grow">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clipRule="evenodd" />
+                  </svg>
+                </div>
+                <Input
+                  id="tracking-search"
+                  placeholder="Search tracking number"
+                  value={tracking}
+                  onChange={(e) => setTracking(e.target.value)}
+                  onKeyDown={handleTrackingKeyDown}
+                  className="pl-10"
+                />
               </div>
-              <Input
-                id="tracking-search"
-                placeholder="Search tracking number"
-                value={tracking}
-                onChange={(e) => setTracking(e.target.value)}
-                className="pl-10"
-              />
+              <Button
+                variant="outline"
+                className="h-[38px] px-3"
+                onClick={() => setShowScanModal(true)}
+                title="Scan a barcode with the camera"
+                aria-label="Scan a barcode with the camera"
+              >
+                <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7V5a1 1 0 011-1h2M17 4h2a1 1 0 011 1v2M20 17v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2M8 8v8M11 8v8M14 8v8M17 8v8" />
+                </svg>
+              </Button>
+              <Select value={trackingMatch} onValueChange={(value) => setTrackingMatch(value as TrackingMatch)}>
+                <SelectTrigger className="w-[130px] h-[38px]" id="tracking-match-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRACKING_MATCHES.map(match => (
+                    <SelectItem key={match.id} value={match.id}>{match.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+            {containsTooShort && (
+              <p className="mt-1 text-xs text-gray-500">
+                Type at least {TRACKING_GRAM_MIN} characters to search inside tracking numbers.
+              </p>
+            )}
+            {containsNarrowed && (
+              <p className="mt-1 text-xs text-gray-500">
+                Searched by the first {TRACKING_GRAM_MAX} characters, then narrowed down on each page, so pages can show fewer rows.
+              </p>
+            )}
           </div>
 
-          {/* Carrier select */}
+          {/* Carrier multi-select */}
           <div className="col-span-1">
-            <Select
-              value={carrier}
-              onValueChange={(value) => {
-                console.log("Selected carrier:", value);
-                setCarrier(value);
-              }}
-            >
-              <SelectTrigger className="w-full h-[38px]" id="carrier-select">
-                <SelectValue placeholder="All Carriers" />
+            <MultiSelectFilter
+              id="carrier-select"
+              label="Carriers"
+              options={availableCarriers.map(option => ({ value: option.carrier.id, label: option.carrier.name }))}
+              selected={carriers}
+              onChange={setCarriers}
+            />
+          </div>
+
+          {/* Device ID multi-select */}
+          <div className="col-span-1">
+            <MultiSelectFilter
+              id="device-select"
+              label="Devices"
+              options={availableDevices.map(device => ({ value: device, label: getDeviceLabelFromCache(device) }))}
+              selected={deviceIds}
+              onChange={setDeviceIds}
+            />
+          </div>
+
+          {/* Operator select */}
+          <div className="col-span-1">
+            <Select value={operator} onValueChange={setOperator}>
+              <SelectTrigger className="w-full h-[38px]" id="operator-select">
+                <SelectValue placeholder="All Operators" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Carriers</SelectItem>
-                {availableCarriers.map((carrierName) => (
-                  <SelectItem key={carrierName} value={carrierName}>
-                    {carrierName}
+                <SelectItem value="all">All Operators</SelectItem>
+                {availableOperators.map((username) => (
+                  <SelectItem key={username} value={username}>
+                    {username}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
-          {/* Device ID select */}
+          {/* Date range presets */}
           <div className="col-span-1">
-            <Select
-              value={deviceId}
-              onValueChange={(value) => {
-                console.log("Selected device:", value);
-                setDeviceId(value);
-              }}
-            >
-              <SelectTrigger className="w-full h-[38px]" id="device-select">
-                <SelectValue placeholder="All Devices" />
+            <Select value={datePreset} onValueChange={(value) => setDatePreset(value as DatePreset)}>
+              <SelectTrigger className="w-full h-[38px]" id="date-preset-select">
+                <SelectValue placeholder="Any Date" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Devices</SelectItem>
-                {availableDevices.map((device) => (
-                  <SelectItem key={device} value={device}>
-                    {getDeviceLabelFromCache(device)}
-                  </SelectItem>
+                {DATE_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Hour-of-day window */}
+          <div className="col-span-1 flex items-center gap-2">
+            <Select value={hourFrom} onValueChange={setHourFrom}>
+              <SelectTrigger className="w-full h-[38px]" id="hour-from-select">
+                <SelectValue placeholder="From hour" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Hour</SelectItem>
+                {HOURS.map(hour => (
+                  <SelectItem key={hour} value={String(hour)}>From {formatHour(hour)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={hourTo} onValueChange={setHourTo}>
+              <SelectTrigger className="w-full h-[38px]" id="hour-to-select">
+                <SelectValue placeholder="To hour" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Hour</SelectItem>
+                {HOURS.map(hour => (
+                  <SelectItem key={hour} value={String(hour)}>To {formatHour(hour).replace(":00", ":59")}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          {datePreset === "custom" && (
+            <div className="col-span-1 sm:col-span-2 lg:col-span-3">
+              <DateRangePicker dateRange={customRange} onDateRangeChange={setCustomRange} />
+            </div>
+          )}
+
           {/* Delete by range button */}
           {/*
           <div className="col-span-1 flex items-end">
@@ -248,6 +718,17 @@ const Home = () => {
       </div>
 
 
+      <BarcodeScanModal
+        isOpen={showScanModal}
+        onClose={() => setShowScanModal(false)}
+        onDetected={searchScannedTracking}
+      />
+
+      <BulkLookupModal
+        isOpen={showBulkLookupModal}
+        onClose={() => setShowBulkLookupModal(false)}
+      />
+
       {/* Delete Modal using shadcn Dialog */}
       {/*
       <Dialog open={showDeleteModal} onOpenChange={setShowDeleteModal}>
@@ -309,79 +790,155 @@ const Home = () => {
       </Dialog>
       */}
 
+      {/* Days are in timestamp order anyway, so a scan date range doesn't disturb a timestamp sort */}
+      {(sortFallback || (orderedBy !== SORT_QUERY_FIELDS[sortField] && !(orderedBy === "dateYmd" && sortField === "timestamp"))) && (
+        <p className="mb-2 text-sm text-gray-500">
+          {sortFallback
+            ? `Sorting by ${SORT_LABELS[sortField]} with these filters needs a Firestore index that hasn't been created yet, so the results are unsorted.`
+            : `Sorted by ${RANGE_FIELD_LABELS[orderedBy ?? ""] ?? orderedBy} first, since the range filter is on that field.`}
+        </p>
+      )}
+
+      {newCount > 0 && (
+        <div className="mb-2 flex items-center justify-between rounded-md bg-indigo-50 border border-indigo-200 px-4 py-2 text-sm text-indigo-800">
+          <span>{newCount} new {newCount === 1 ? "scan" : "scans"}</span>
+          <button onClick={() => showPage(1)} className="font-medium underline hover:text-indigo-600">
+            Jump to top
+          </button>
+        </div>
+      )}
+
       <div className="overflow-x-auto rounded-lg shadow-md !h-[500px] !overflow-auto">
         <table className="min-w-full bg-white">
           <thead className="bg-gray-100 sticky top-0  ">
             <tr>
               <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">S.No</th>
-              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Tracking Number</th>
-              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Carrier</th>
-              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Timestamp</th>
-              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Device ID</th>
-              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Location</th>
+              {renderSortableHeader("Tracking Number", "tracking")}
+              {columns.map(column => column.sortField ? (
+                <Fragment key={column.id}>{renderSortableHeader(column.label, column.sortField)}</Fragment>
+              ) : (
+                <th key={column.id} className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">{column.label}</th>
+              ))}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200 ">
             {error && (
               <tr>
-                <td colSpan={6} className="py-4 px-4 text-center text-sm text-red-500">
+                <td colSpan={columns.length + 2} className="py-4 px-4 text-center text-sm text-red-500">
                   Error: {error}
                 </td>
               </tr>
             )}
-            {!loading && !error && packages.length === 0 && (
+            {!loading && !error && shownPackages.length === 0 && (
               <tr>
-                <td colSpan={6} className="py-4 px-4 text-center text-sm text-gray-500">
-                  No packages found
+                <td colSpan={columns.length + 2} className="py-4 px-4 text-center text-sm text-gray-500">
+                  {packages.length ? "No packages on this page contain the whole search" : "No packages found"}
                 </td>
               </tr>
             )}
             {loading ? <tr>
-              <td colSpan={6} className="py-4 px-4 text-center text-sm text-gray-500">
+              <td colSpan={columns.length + 2} className="py-4 px-4 text-center text-sm text-gray-500">
                 Loading...
               </td>
-            </tr> : packages.map((pkg, index) => (
-              <tr key={index} className="hover:bg-gray-50">
-                <td className="py-3 px-4 text-sm text-gray-900">{index + 1 + (page - 1) * 50}</td>
-                <td className="py-3 px-4 text-sm text-gray-900">{pkg.tracking}</td>
-                <td className="py-3 px-4 text-sm text-gray-900">{pkg.carrier}</td>
-                <td className="py-3 px-4 text-sm text-gray-900">{pkg.timestamp}</td>
-                <td className="py-3 px-4 text-sm text-gray-900">
-                  {getDeviceLabelFromCache(pkg.deviceId)}
-                </td>
-                <td className="py-3 px-4 text-sm">
-                  {pkg.latitude && pkg.longitude ? (
-                    <a
-                      href={`https://www.google.com/maps?q=${pkg.latitude},${pkg.longitude}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-indigo-600 hover:text-indigo-800 underline flex items-center"
+            </tr> : shownPackages.map((pkg, index) => {
+              const assessment = assessScan(pkg.tracking, pkg.carrier);
+              const trackingHighlight = tracking ? findTrackingMatch(pkg.tracking, tracking, trackingMatch) : null;
+              const cells: Record<PackageColumnId, ReactNode> = {
+                carrier: assessment.inferredCarrier ? (
+                  <span title="Inferred from the tracking number format">
+                    {assessment.inferredCarrier.name} <span className="text-xs text-gray-400">(inferred)</span>
+                  </span>
+                ) : getCarrierName(pkg.carrier),
+                timestamp: pkg.timestamp,
+                deviceId: getDeviceLabelFromCache(pkg.deviceId),
+                username: pkg.username || <span className="text-gray-400">N/A</span>,
+                location: pkg.latitude && pkg.longitude ? (
+                  <a
+                    href={`https://www.google.com/maps?q=${pkg.latitude},${pkg.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-indigo-600 hover:text-indigo-800 underline flex items-center"
+                  >
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                    </svg>
+                    View Map
+                  </a>
+                ) : (
+                  <span className="text-gray-400">N/A</span>
+                ),
+                coordinates: pkg.latitude && pkg.longitude
+                  ? `${pkg.latitude}, ${pkg.longitude}`
+                  : <span className="text-gray-400">N/A</span>,
+                dateYmd: pkg.dateYmd || <span className="text-gray-400">N/A</span>,
+              };
+              return (
+                <tr key={pkg.id} className={`hover:bg-gray-50 ${newIds.includes(pkg.id) ? "animate-row-highlight" : ""}`}>
+                  <td className="py-3 px-4 text-sm text-gray-900">{index + 1 + (page - 1) * 50}</td>
+                  <td className="py-3 px-4 text-sm text-gray-900">
+                    <Link
+                      to={`/packages/${encodeURIComponent(pkg.tracking)}`}
+                      className="text-indigo-600 hover:text-indigo-800 hover:underline"
                     >
-                      <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                      </svg>
-                      View Map
-                    </a>
-                  ) : (
-                    <span className="text-gray-400">N/A</span>
-                  )}
-                </td>
-              </tr>
-            ))}
+                      {trackingHighlight ? (
+                        <>
+                          {pkg.tracking.slice(0, trackingHighlight[0])}
+                          <mark className="bg-yellow-100 text-inherit rounded-sm">
+                            {pkg.tracking.slice(trackingHighlight[0], trackingHighlight[1])}
+                          </mark>
+                          {pkg.tracking.slice(trackingHighlight[1])}
+                        </>
+                      ) : pkg.tracking}
+                    </Link>
+                    {assessment.invalid && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700"
+                        title={assessment.tracking.format ? `Check digit doesn't match the ${assessment.tracking.format} format` : "Not a valid tracking number"}
+                      >
+                        Invalid
+                      </span>
+                    )}
+                    {assessment.carrierMismatch && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-700"
+                        title={`The number is a ${assessment.tracking.format} tracking number`}
+                      >
+                        Carrier mismatch
+                      </span>
+                    )}
+                  </td>
+                  {columns.map(column => (
+                    <td key={column.id} className="py-3 px-4 text-sm text-gray-900">
+                      {cells[column.id]}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
 
       <div className="mt-4 flex items-center justify-between px-4 py-3 bg-white border-t border-gray-200 rounded-b-lg">
         <div className="text-sm text-gray-700">
-          Showing <span className="font-medium">{packages.length ? (page - 1) * 50 + 1 : 0}</span> to{" "}
-          <span className="font-medium">{(page - 1) * 50 + packages.length}</span> of{" "}
-          <span className="font-medium">{totalCount || 0}</span> results
+          {containsNarrowed ? (
+            <>
+              <span className="font-medium">{shownPackages.length}</span> of the{" "}
+              <span className="font-medium">{packages.length}</span> packages on this page contain the whole search
+              {" "}({totalCount || 0} contain the first {TRACKING_GRAM_MAX} characters)
+            </>
+          ) : (
+            <>
+              Showing <span className="font-medium">{packages.length ? (page - 1) * 50 + 1 : 0}</span> to{" "}
+              <span className="font-medium">{(page - 1) * 50 + packages.length}</span> of{" "}
+              <span className="font-medium">{totalCount || 0}</span> results
+            </>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           <button
-            onClick={prevPage}
+            onClick={() => showPage(page - 1)}
             disabled={!hasPrev}
             className={`relative inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${hasPrev
               ? "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
@@ -400,7 +957,7 @@ const Home = () => {
               Array.from({ length: end - start + 1 }, (_, i) => start + i).map((p) => (
                 <button
                   key={p}
-                  onClick={() => goToPage(p)}
+                  onClick={() => showPage(p)}
                   disabled={p === page}
                   className={`relative inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${p === page
                     ? "z-10 bg-indigo-50 border-indigo-500 text-indigo-600 border"
@@ -414,7 +971,7 @@ const Home = () => {
           </div>
 
           <button
-            onClick={nextPage}
+            onClick={() => showPage(page + 1)}
             disabled={!hasNext}
             className={`relative inline-flex items-center px-4 py-2 text-sm font-medium rounded-md ${hasNext
               ? "bg-white text-gray-700 hover:bg-gray-50 border border-gray-300"
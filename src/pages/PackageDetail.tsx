@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { getDeviceLabel } from "@/config/deviceLabels";
+import { resolveCarrier } from "@/config/carriers";
+import { useCarrierRegistry } from "@/hooks/useCarrierRegistry";
+import { getPackageScans, type PackageScan } from "@/services/packageService";
+
+// Degrees around the scan location shown on the map
+const MAP_SPAN = 0.005;
+
+const formatTimestamp = (timestamp: string | undefined): string => {
+  if (!timestamp) return "N/A";
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : format(date, "MMM d, yyyy HH:mm:ss");
+};
+
+const ScanMap = ({ latitude, longitude }: { latitude: number; longitude: number }) => {
+  const bbox = [longitude - MAP_SPAN, latitude - MAP_SPAN, longitude + MAP_SPAN, latitude + MAP_SPAN].join(",");
+  return (
+    <div className="space-y-1">
+      <iframe
+        title={`Scan location ${latitude}, ${longitude}`}
+        src={`https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`}
+        className="w-full h-40 rounded-md border border-gray-200"
+        loading="lazy"
+      />
+      <a
+        href={`https://www.google.com/maps?q=${latitude},${longitude}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+      >
+        Open in Google Maps
+      </a>
+    </div>
+  );
+};
+
+const PackageDetail = () => {
+  const { tracking = "" } = useParams();
+  const [scans, setScans] = useState<PackageScan[]>([]);
+  const [deviceLabels, setDeviceLabels] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render carrier names when admins change the mapping
+  useCarrierRegistry();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const loadedScans = await getPackageScans(tracking);
+        const deviceIds = [...new Set(loadedScans.map(scan => scan.deviceId).filter((id): id is string => !!id))];
+        const labels = await Promise.all(deviceIds.map(id => getDeviceLabel(id)));
+        if (cancelled) return;
+        setScans(loadedScans);
+        setDeviceLabels(Object.fromEntries(deviceIds.map((id, i) => [id, labels[i]])));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [tracking]);
+
+  // The most recent scan decides the carrier shown in the header
+  const latestScan = scans[scans.length - 1];
+  const carrier = latestScan ? resolveCarrier(latestScan.carrier) : null;
+
+  return (
+    <div>
+      <div className="mb-4">
+        <Link to="/" className="text-sm text-indigo-600 hover:text-indigo-800">
+          &larr; Back to dashboard
+        </Link>
+      </div>
+
+      <div className="mb-6 bg-white p-6 rounded-lg shadow-md">
+        <h1 className="text-2xl font-semibold font-mono break-all">{tracking}</h1>
+        {carrier && (
+          <div className="mt-3 flex flex-wrap gap-x-8 gap-y-2 text-sm text-gray-600">
+            <span className="inline-flex items-center">
+              <span className="w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: carrier.color }}></span>
+              {carrier.name}
+            </span>
+            <span>{scans.length} {scans.length === 1 ? "scan" : "scans"}</span>
+            <span>First scanned {formatTimestamp(scans[0]?.timestamp)}</span>
+            <span>Last scanned {formatTimestamp(latestScan?.timestamp)}</span>
+          </div>
+        )}
+      </div>
+
+      <h2 className="text-xl font-semibold mb-3">Scan History</h2>
+
+      {loading ? (
+        <div className="bg-white p-6 rounded-lg shadow-md text-center text-sm text-gray-500">Loading...</div>
+      ) : error ? (
+        <div className="bg-white p-6 rounded-lg shadow-md text-center text-sm text-red-500">Error: {error}</div>
+      ) : scans.length === 0 ? (
+        <div className="bg-white p-6 rounded-lg shadow-md text-center text-sm text-gray-500">
+          No scans found for this tracking number
+        </div>
+      ) : (
+        <ol className="relative border-l-2 border-indigo-200 ml-3 space-y-6">
+          {scans.map((scan, index) => {
+            const scanCarrier = resolveCarrier(scan.carrier);
+            const latitude = Number(scan.latitude);
+            const longitude = Number(scan.longitude);
+            const hasLocation = !!scan.latitude && !!scan.longitude && Number.isFinite(latitude) && Number.isFinite(longitude);
+            return (
+              <li key={scan.id} className="ml-6">
+                <span className="absolute -left-[9px] mt-5 w-4 h-4 rounded-full bg-indigo-500 border-2 border-white"></span>
+                <div className="bg-white p-4 rounded-lg shadow-md grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-gray-500">Scan</dt>
+                    <dd className="text-gray-900 font-medium">#{index + 1}</dd>
+                    <dt className="text-gray-500">Timestamp</dt>
+                    <dd className="text-gray-900">{formatTimestamp(scan.timestamp)}</dd>
+                    <dt className="text-gray-500">Device</dt>
+                    <dd className="text-gray-900">{scan.deviceId ? deviceLabels[scan.deviceId] || scan.deviceId : "N/A"}</dd>
+                    <dt className="text-gray-500">Username</dt>
+                    <dd className="text-gray-900">{scan.username || "N/A"}</dd>
+                    <dt className="text-gray-500">Carrier</dt>
+                    <dd className="text-gray-900">{scanCarrier.name}</dd>
+                    {scan.notes && (
+                      <>
+                        <dt className="text-gray-500">Notes</dt>
+                        <dd className="text-gray-900 whitespace-pre-wrap">{scan.notes}</dd>
+                      </>
+                    )}
+                  </dl>
+                  {hasLocation ? (
+                    <ScanMap latitude={latitude} longitude={longitude} />
+                  ) : (
+                    <div className="flex items-center justify-center h-40 rounded-md bg-gray-50 text-sm text-gray-400">
+                      No location recorded
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default PackageDetail;
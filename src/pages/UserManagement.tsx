@@ -0,0 +1,352 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import toast from "react-hot-toast";
+import { Button } from "../components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ROLE_LABELS, USER_ROLES, type UserRole } from "@/config/roles";
+import { useAuth } from "@/contexts/useAuth";
+import {
+  getUserHistory,
+  inviteUser,
+  listUsers,
+  sendPasswordSetupEmail,
+  setUserDisabled,
+  setUserRole,
+  type ManagedUser
+} from "@/services/userService";
+import { AUDIT_ACTION_LABELS, type AuditEntry } from "@/services/auditService";
+
+// Human-readable description of a history entry
+const describeHistoryEntry = (entry: AuditEntry): string => {
+  switch (entry.action) {
+    case "user.invite":
+      return `Invited as ${ROLE_LABELS[entry.details.role as UserRole] || entry.details.role}`;
+    case "user.role-change":
+      return `Role changed from ${ROLE_LABELS[entry.details.from as UserRole] || entry.details.from} to ${ROLE_LABELS[entry.details.to as UserRole] || entry.details.to}`;
+    case "user.disable":
+      return "Account disabled";
+    case "user.enable":
+      return "Account re-enabled";
+    default:
+      return AUDIT_ACTION_LABELS[entry.action] || entry.action;
+  }
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const UserManagement = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyUid, setBusyUid] = useState<string | null>(null);
+
+  // History of the expanded row
+  const [expandedUid, setExpandedUid] = useState<string | null>(null);
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+
+  // Invite dialog
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteName, setInviteName] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("viewer");
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setUsers(await listUsers());
+    } catch (error) {
+      toast.error(`Error loading users: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async (uid: string) => {
+    setHistory([]);
+    setHistory(await getUserHistory(uid));
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Apply a change to one row, then refresh it and its history
+  const runUserAction = async (uid: string, action: () => Promise<void>, successMessage: string) => {
+    try {
+      setBusyUid(uid);
+      await action();
+      toast.success(successMessage);
+      await loadUsers();
+      if (expandedUid === uid) await loadHistory(uid);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBusyUid(null);
+    }
+  };
+
+  const handleRoleChange = (managedUser: ManagedUser, role: UserRole) =>
+    runUserAction(
+      managedUser.uid,
+      () => setUserRole(managedUser.uid, role),
+      `${managedUser.email} is now ${ROLE_LABELS[role]}`
+    );
+
+  const handleToggleDisabled = (managedUser: ManagedUser) =>
+    runUserAction(
+      managedUser.uid,
+      () => setUserDisabled(managedUser.uid, !managedUser.disabled),
+      `${managedUser.email} has been ${managedUser.disabled ? "re-enabled" : "disabled"}`
+    );
+
+  const handleResendInvite = (managedUser: ManagedUser) =>
+    runUserAction(
+      managedUser.uid,
+      () => sendPasswordSetupEmail(managedUser.email ?? ""),
+      `Invitation sent to ${managedUser.email}`
+    );
+
+  const handleToggleHistory = async (uid: string) => {
+    if (expandedUid === uid) {
+      setExpandedUid(null);
+      return;
+    }
+    setExpandedUid(uid);
+    await loadHistory(uid);
+  };
+
+  const resetInviteForm = () => {
+    setInviteEmail("");
+    setInviteName("");
+    setInviteRole("viewer");
+  };
+
+  const handleInvite = async () => {
+    if (!inviteEmail.includes("@")) {
+      toast("Please enter a valid email address");
+      return;
+    }
+
+    try {
+      setIsInviting(true);
+      const result = await inviteUser({ email: inviteEmail, displayName: inviteName, role: inviteRole });
+      if (result.emailSent) {
+        toast.success(`Invitation sent to ${inviteEmail}`);
+      } else {
+        toast.error(
+          `Account created for ${inviteEmail}, but the invitation email could not be sent (${result.emailError}). Use Resend Invite to try again.`,
+          { duration: 8000 }
+        );
+      }
+      setShowInviteModal(false);
+      resetInviteForm();
+      await loadUsers();
+    } catch (error) {
+      toast.error(`Error inviting user: ${getErrorMessage(error)}`);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold mb-1">User Management</h1>
+          <p className="text-gray-600">
+            Invite dashboard users, assign their roles and disable accounts that should no longer have access.
+          </p>
+        </div>
+        <Button onClick={() => setShowInviteModal(true)}>Invite User</Button>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full bg-white">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">User</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Role</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Status</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Last Sign-in</th>
+              <th className="py-3 px-4 text-left text-sm font-medium text-gray-700 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading && users.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">Loading...</td>
+              </tr>
+            ) : users.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-4 px-4 text-center text-sm text-gray-500">No users found</td>
+              </tr>
+            ) : users.map((managedUser) => {
+              const isSelf = managedUser.uid === currentUser?.id;
+              const isBusy = busyUid === managedUser.uid;
+              return (
+                <Fragment key={managedUser.uid}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm text-gray-900">
+                      <div className="font-medium">{managedUser.email || managedUser.uid}</div>
+                      {managedUser.displayName && (
+                        <div className="text-xs text-gray-500">{managedUser.displayName}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      <Select
+                        value={managedUser.role}
+                        onValueChange={(value) => handleRoleChange(managedUser, value as UserRole)}
+                        disabled={isSelf || isBusy}
+                      >
+                        <SelectTrigger className="w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      {managedUser.disabled ? (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700">Disabled</span>
+                      ) : (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-700">Active</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-500">
+                      {managedUser.lastSignInAt ? format(new Date(managedUser.lastSignInAt), "MMM d, yyyy HH:mm") : "Never"}
+                    </td>
+                    <td className="py-3 px-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant={managedUser.disabled ? "outline" : "destructive"}
+                          size="sm"
+                          onClick={() => handleToggleDisabled(managedUser)}
+                          disabled={isSelf || isBusy}
+                        >
+                          {managedUser.disabled ? "Enable" : "Disable"}
+                        </Button>
+                        {!managedUser.lastSignInAt && !managedUser.disabled && managedUser.email && (
+                          <Button variant="outline" size="sm" onClick={() => handleResendInvite(managedUser)} disabled={isBusy}>
+                            Resend Invite
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => handleToggleHistory(managedUser.uid)}>
+                          {expandedUid === managedUser.uid ? "Hide History" : "History"}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedUid === managedUser.uid && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="py-3 px-6 text-sm">
+                        {history.length === 0 ? (
+                          <p className="text-gray-500">No recorded changes</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {history.map(entry => (
+                              <li key={entry.id} className="text-gray-700">
+                                {describeHistoryEntry(entry)}
+                                <span className="text-gray-500">
+                                  {" "}by {entry.actorEmail || entry.actorUid}
+                                  {entry.at && ` on ${format(entry.at.toDate(), "MMM d, yyyy 'at' HH:mm")}`}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Invite Modal using shadcn Dialog */}
+      <Dialog
+        open={showInviteModal}
+        onOpenChange={(open) => {
+          setShowInviteModal(open);
+          if (!open) resetInviteForm();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              Creates the account and emails a link to set a password.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid gap-1.5">
+              <label htmlFor="invite-email" className="text-sm font-medium">Email</label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="name@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <label htmlFor="invite-name" className="text-sm font-medium">Name</label>
+              <Input
+                id="invite-name"
+                placeholder="Optional"
+                value={inviteName}
+                onChange={(e) => setInviteName(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <label className="text-sm font-medium">Role</label>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowInviteModal(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={!inviteEmail || isInviting}>
+              {isInviting ? "Sending..." : "Send Invitation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -1,33 +1,85 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   collection,
   documentId,
   getCountFromServer,
   getDocs,
   limit,
+  limitToLast,
+  onSnapshot,
   orderBy,
   query,
   startAfter,
+  Timestamp,
   where,
   type DocumentData,
   type DocumentSnapshot,
   type Firestore,
   type OrderByDirection,
   type QueryConstraint,
+  type QueryDocumentSnapshot,
 } from "firebase/firestore";
 
+/** Documents read per query while skipping over pages that have no cursor yet */
+const SKIP_BATCH_SIZE = 500;
+/** Queries whose page cursors are kept after the search moves on, most recent last */
+const MAX_CACHED_CURSOR_INDEXES = 20;
+
+/**
+ * Cursor (last doc) of each known page; index 0 = before page 1.
+ * Sparse: pages skipped over by a jump fill in their own entries.
+ */
+type CursorIndex = {
+  cursors: Array<DocumentSnapshot | null>;
+  /** Same for a search split into several queries: each query's cursor at the end of each known page */
+  partCursors: Array<Array<DocumentSnapshot | null>>;
+};
+
+// Kept per query for the whole session, so coming back to a search (e.g. from
+// a package's page) doesn't read past every page before the one shown again.
+// The web SDK can't read document IDs alone, so reaching a page without a
+// cursor downloads the pages in between.
+const cursorIndexes = new Map<string, CursorIndex>();
+
+/** The cursor index of a query, created empty when it has none; fresh drops what was cached */
+function getCursorIndex(queryKey: string, fresh = false): CursorIndex {
+  const index = (!fresh && cursorIndexes.get(queryKey)) || { cursors: [null], partCursors: [] };
+  cursorIndexes.delete(queryKey);
+  cursorIndexes.set(queryKey, index);
+  if (cursorIndexes.size > MAX_CACHED_CURSOR_INDEXES) {
+    cursorIndexes.delete(cursorIndexes.keys().next().value as string);
+  }
+  return index;
+}
+
 type ExactOp = "==" | "in" | "!=" | "array-contains" | "array-contains-any" | "not-in";
+/** Range ops; "between" takes [lower, upper], both inclusive */
+type RangeOp = ">=" | "<=" | "between";
 /** Special pseudo-op for prefix search, e.g. startsWith("abc") */
 type SpecialOp = "startsWith";
 /** Supported filter ops */
-type Op = ExactOp | SpecialOp;
+type Op = ExactOp | RangeOp | SpecialOp;
 
 export type SearchFilter = {
   field: string;
   op: Op;
   value: any;
+  /**
+   * Range filters only: every value the range covers. Lets the filter run as
+   * an "in" filter when another field already holds the query's range.
+   */
+  values?: unknown[];
 };
 
+/** Negations are inequalities too, but only hold the query's range when nothing else needs it */
+const NEGATION_OPS: Op[] = ["!=", "not-in"];
+const RANGE_OPS: Op[] = [">=", "<=", "between", "startsWith", ...NEGATION_OPS];
+
+/** Firestore's limit on "in" values, and on disjunctions in one query */
+const MAX_DISJUNCTIONS = 30;
+/** Most queries one search is split into when its disjunctions exceed MAX_DISJUNCTIONS */
+const MAX_QUERY_PARTS = 10;
+
 type Options = {
   pageSize?: number;
   /** If omitted, we’ll use documentId(); overridden when a range filter requires orderBy on its field. */
@@ -36,6 +88,13 @@ type Options = {
   withTotalCount?: boolean;     // default true
   /** Add filters like { field: 'tracking', op: '==', value: '123' } or { field:'carrier', op:'startsWith', value:'Fed' } */
   filters?: SearchFilter[];
+  /**
+   * Follow page 1 with a listener: new docs appear as they are written. Default false.
+   * Searches split into several queries aren't followed.
+   */
+  live?: boolean;
+  /** Page to open whenever the query changes, e.g. one restored from the URL. Default 1 */
+  startPage?: number;
 };
 
 type Result<T> = {
@@ -49,6 +108,16 @@ type Result<T> = {
   totalCount?: number;
   totalPages?: number;
 
+  /** Field the results are actually ordered by first; null when ordered by document ID */
+  orderedBy: string | null;
+  /** The requested sort needs a composite index that doesn't exist, so it was left out */
+  sortFallback: boolean;
+
+  /** Live mode: IDs on page 1 that arrived after it was first shown, for highlighting */
+  newIds: string[];
+  /** Live mode: docs that arrived on page 1 while a later page is shown */
+  newCount: number;
+
   /** Navigation */
   nextPage: () => Promise<void>;
   prevPage: () => Promise<void>;
@@ -65,6 +134,27 @@ function nextString(str: string) {
   return prefix + bumped;
 }
 
+/** Firestore's order of value types, for the types documents are sorted on */
+function typeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === "string") return 4;
+  return 5;
+}
+
+/** Compare two field values the way Firestore orders them */
+function compareValues(a: unknown, b: unknown): number {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) return rankDiff;
+  if (a instanceof Timestamp && b instanceof Timestamp) return a.toMillis() - b.toMillis();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  return 0;
+}
+
 export function useFirestoreSearchWithServerSidePagination<T = DocumentData>(
   db: Firestore,
   collectionPath: string,
@@ -76,124 +166,457 @@ export function useFirestoreSearchWithServerSidePagination<T = DocumentData>(
     direction = "desc",
     withTotalCount = true,
     filters = [],
+    live = false,
+    startPage = 1,
   }: Options = {}
 ): Result<T> {
   const [data, setData] = useState<T[]>([]);
-  const [page, setPage] = useState(1);
+  const [page, setPage] = useState(startPage);
   const [hasNext, setHasNext] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState<number | undefined>(undefined);
+  const [newIds, setNewIds] = useState<string[]>([]);
+  const [newCount, setNewCount] = useState(0);
+
+  // A sort that failed for lack of a composite index is left out for as long as it's requested
+  const sortKey = JSON.stringify([filters, orderByField, direction]);
+  const [failedSortKey, setFailedSortKey] = useState<string | null>(null);
+  const sortFallback = failedSortKey === sortKey;
 
-  // Cursor (last doc) for each visited page; index 0 = before page 1
-  const cursorsRef = useRef<Array<DocumentSnapshot | null>>([null]);
+  // Page cursors of the current query, shared with the session cache
+  const queryKey = JSON.stringify([collectionPath, sortKey, sortFallback, pageSize]);
+  const cursorIndexRef = useRef<CursorIndex>({ cursors: [null], partCursors: [] });
+  // Latest total count, read when choosing how to reach a page
+  const totalCountRef = useRef<number | undefined>(undefined);
+  // Bumped on every page request so a slow, superseded response is dropped
+  const requestRef = useRef(0);
+  // Page currently shown, for the live listener
+  const pageRef = useRef(1);
+  // Live mode: IDs that arrived on page 1 while a later page was shown
+  const pendingIdsRef = useRef<string[]>([]);
 
   /** Build QueryConstraints from filters + ordering.
    * Firestore rule: if any range filter (>=, <) exists on field F, then F must be the first orderBy.
    * We emulate prefix search with >= value and < nextString(value).
    */
   const buildConstraints = useCallback((): {
-    constraints: QueryConstraint[];
+    /** One query, or the parts of a search split to stay within MAX_DISJUNCTIONS; their results are merged */
+    constraintSets: QueryConstraint[][];
     effectiveOrderByField: string | null;
+    /** Fields the results are ordered by, in order; empty when ordered by document ID */
+    orderFields: string[];
+    /** Why the filters can't run as one search, if they can't */
+    conflict: string | null;
   } => {
     const constraints: QueryConstraint[] = [];
 
-    let rangeField: string | null = null;
+    // Firestore allows range filters on one field only: a prefix search
+    // claims it first, otherwise the first range filter does. A negation
+    // claims it only when it is the only range filter and no "in" is used,
+    // since Firestore doesn't allow "not-in" next to a disjunction.
+    const rangeFilters = filters.filter((f) => RANGE_OPS.includes(f.op));
+    const hasDisjunction = filters.some((f) => f.op === "in" || f.op === "array-contains-any");
+    const rangeFilter =
+      rangeFilters.find((f) => f.op === "startsWith") ??
+      rangeFilters.find((f) => !NEGATION_OPS.includes(f.op)) ??
+      (rangeFilters.length === 1 && !hasDisjunction ? rangeFilters[0] : undefined);
+    const rangeField: string | null = rangeFilter?.field ?? null;
     const equalityConstraints: QueryConstraint[] = [];
+    // "in"-style filters, kept apart so the longest can be split if they multiply past the limit
+    const disjunctions: { field: string; op: "in" | "array-contains-any"; values: unknown[] }[] = [];
+    let conflict: string | null = null;
 
     for (const f of filters) {
-      if (f.op === "startsWith") {
+      if (RANGE_OPS.includes(f.op) && f.field !== rangeField) {
+        // Range on a second field: run it as "in" over the values it covers
+        if (f.op === "startsWith" || !f.values) {
+          conflict = rangeField
+            ? `The ${f.field} filter can't be combined with the ${rangeField} filter`
+            : `The ${f.field} filter can't be combined with the other filters`;
+          continue;
+        }
+        disjunctions.push({ field: f.field, op: "in", values: f.values });
+      } else if (f.op === "startsWith") {
         // turns into: where(field, ">=", value) & where(field, "<", nextString(value))
         const upper = nextString(String(f.value));
         constraints.push(where(f.field, ">=", f.value));
         constraints.push(where(f.field, "<", upper));
-        // mark range field (first one wins)
-        if (!rangeField) rangeField = f.field;
+      } else if (f.op === "between") {
+        constraints.push(where(f.field, ">=", f.value[0]));
+        constraints.push(where(f.field, "<=", f.value[1]));
+      } else if ((f.op === "in" || f.op === "array-contains-any") && Array.isArray(f.value)) {
+        disjunctions.push({ field: f.field, op: f.op, values: f.value });
       } else {
-        // exact/array ops
+        // exact/array ops, single-sided ranges and negations
         equalityConstraints.push(where(f.field, f.op as any, f.value));
       }
     }
 
+    // Past the limit, the longest "in" list is split over several queries, each
+    // with as many of its values as the other lists leave room for. Its values
+    // are distinct, so no document is found by two of the queries.
+    let parts: unknown[][] = [[]];
+    let split: (typeof disjunctions)[number] | null = null;
+    const combinations = disjunctions.reduce((n, d) => n * d.values.length, 1);
+    if (combinations > MAX_DISJUNCTIONS) {
+      split = disjunctions
+        .filter((d) => d.op === "in")
+        .reduce<(typeof disjunctions)[number] | null>((a, b) => (!a || b.values.length > a.values.length ? b : a), null);
+      const partSize = split ? Math.floor((MAX_DISJUNCTIONS * split.values.length) / combinations) : 0;
+      if (!split || partSize < 1 || Math.ceil(split.values.length / partSize) > MAX_QUERY_PARTS) {
+        conflict ??= "These filters together match too many combinations to search; narrow one of them";
+        split = null;
+      } else {
+        const values = split.values;
+        parts = Array.from({ length: Math.ceil(values.length / partSize) }, (_, i) =>
+          values.slice(i * partSize, (i + 1) * partSize)
+        );
+      }
+    }
+    disjunctions
+      .filter((d) => d !== split)
+      .forEach((d) => equalityConstraints.push(where(d.field, d.op, d.values)));
+
     // put equality constraints after we added range ones (order doesn't matter for where)
     constraints.push(...equalityConstraints);
 
     // Decide ordering:
-    // 1) If a range field exists, Firestore requires orderBy(rangeField) first
+    // 1) If a range field exists, Firestore requires orderBy(rangeField) first;
+    //    the requested sort can then only break ties
     // 2) Else use provided orderByField or fallback to documentId()
+    // Without the composite index a sort needs, only the orderBy that
+    // single-field indexes can serve is kept
+    let effectiveOrderByField: string | null;
+    const orderFields: string[] = [];
     if (rangeField) {
-      constraints.push(orderBy(rangeField as string, direction));
-      return { constraints, effectiveOrderByField: rangeField };
-    } else if (orderByField) {
-      constraints.push(orderBy(orderByField, direction));
-      return { constraints, effectiveOrderByField: orderByField };
+      orderFields.push(rangeField);
+      if (orderByField && orderByField !== rangeField && !sortFallback) {
+        orderFields.push(orderByField);
+      }
+      effectiveOrderByField = rangeField;
+    } else if (orderByField && !sortFallback) {
+      orderFields.push(orderByField);
+      effectiveOrderByField = orderByField;
     } else {
-      constraints.push(orderBy(documentId(), direction));
-      return { constraints, effectiveOrderByField: null }; // using documentId()
+      effectiveOrderByField = null; // using documentId()
     }
-  }, [JSON.stringify(filters), orderByField, direction]);
+    const ordering = orderFields.length
+      ? orderFields.map((field) => orderBy(field, direction))
+      : [orderBy(documentId(), direction)];
+
+    const constraintSets = parts.map((part) =>
+      split ? [...constraints, where(split.field, split.op, part), ...ordering] : [...constraints, ...ordering]
+    );
+    return { constraintSets, effectiveOrderByField, orderFields, conflict };
+  }, [JSON.stringify(filters), orderByField, direction, sortFallback]);
+
+  const { effectiveOrderByField } = useMemo(() => buildConstraints(), [buildConstraints]);
+
+  /** Leave the sort out when Firestore reports a missing index; true when that will be retried */
+  const fallBackOnMissingIndex = useCallback(
+    (e: { code?: string; message?: string }): boolean => {
+      if (e?.code !== "failed-precondition" || sortFallback) return false;
+      // The message contains the link that creates the index
+      console.warn("Sort needs a composite index, falling back:", e.message);
+      setFailedSortKey(sortKey);
+      return true;
+    },
+    [sortFallback, sortKey]
+  );
+
+  /** Remember the last doc of every full page in `docs`, which start right after page `afterPage` */
+  const recordCursors = useCallback(
+    (afterPage: number, docs: QueryDocumentSnapshot[]) => {
+      docs.forEach((d, i) => {
+        if ((i + 1) % pageSize === 0) cursorIndexRef.current.cursors[afterPage + (i + 1) / pageSize] = d;
+      });
+    },
+    [pageSize]
+  );
+
+  /** Read up to `count` docs of a split search after `cursors` (one per query), merged into one ordering */
+  const readMerged = useCallback(
+    async (
+      constraintSets: QueryConstraint[][],
+      orderFields: string[],
+      cursors: Array<DocumentSnapshot | null>,
+      count: number
+    ) => {
+      const coll = collection(db, collectionPath);
+      const snaps = await Promise.all(
+        constraintSets.map((constraints, i) => {
+          const cursor = cursors[i];
+          return getDocs(
+            cursor
+              ? query(coll, ...constraints, startAfter(cursor), limit(count))
+              : query(coll, ...constraints, limit(count))
+          );
+        })
+      );
+
+      // Each query returned its first `count`, so the first `count` overall are among them
+      const sign = direction === "desc" ? -1 : 1;
+      const merged = snaps
+        .flatMap((snap, part) => snap.docs.map((doc) => ({ doc, part })))
+        .sort((a, b) => {
+          for (const field of orderFields) {
+            const order = compareValues(a.doc.get(field), b.doc.get(field));
+            if (order !== 0) return sign * order;
+          }
+          // Firestore breaks ties by document ID
+          return sign * compareValues(a.doc.id, b.doc.id);
+        })
+        .slice(0, count);
+
+      /** Each query's cursor once the first `n` merged docs are read */
+      const cursorsAfter = (n: number) => {
+        const next = [...cursors];
+        merged.slice(0, n).forEach(({ doc, part }) => {
+          next[part] = doc;
+        });
+        return next;
+      };
+      return { docs: merged.map(({ doc }) => doc), cursorsAfter };
+    },
+    [db, collectionPath, direction]
+  );
+
+  /**
+   * Fetch one page of a search split into several queries. As with a single
+   * query, pages without cursors are reached by reading past the pages in
+   * between in large batches.
+   */
+  const fetchMergedPage = useCallback(
+    async (
+      constraintSets: QueryConstraint[][],
+      orderFields: string[],
+      pageIndex: number
+    ): Promise<{ docs: QueryDocumentSnapshot[]; hasNext: boolean }> => {
+      let known = pageIndex - 1;
+      while (known > 0 && cursorIndexRef.current.partCursors[known] === undefined) known--;
+      let cursors = cursorIndexRef.current.partCursors[known] ?? constraintSets.map(() => null);
+
+      const pagesPerBatch = Math.max(1, Math.floor(SKIP_BATCH_SIZE / pageSize));
+      while (known < pageIndex - 1) {
+        const pages = Math.min(pagesPerBatch, pageIndex - 1 - known);
+        const { docs, cursorsAfter } = await readMerged(constraintSets, orderFields, cursors, pages * pageSize);
+        for (let i = 1; i * pageSize <= docs.length; i++) {
+          cursorIndexRef.current.partCursors[known + i] = cursorsAfter(i * pageSize);
+        }
+        cursors = cursorsAfter(docs.length);
+        known += pages;
+        if (docs.length < pages * pageSize) break; // past the last document
+      }
+
+      const { docs, cursorsAfter } = await readMerged(constraintSets, orderFields, cursors, pageSize + 1);
+      const pageDocs = docs.slice(0, pageSize);
+      cursorIndexRef.current.partCursors[pageIndex] = cursorsAfter(pageDocs.length);
+      return { docs: pageDocs, hasNext: docs.length > pageSize };
+    },
+    [pageSize, readMerged]
+  );
+
+  /** Count the documents a search matches */
+  const countMatches = useCallback(
+    async (constraintSets: QueryConstraint[][]): Promise<number> => {
+      const coll = collection(db, collectionPath);
+      // The queries of a split search never find the same document, so their counts add up
+      const countSnaps = await Promise.all(
+        constraintSets.map((constraints) => getCountFromServer(query(coll, ...constraints)))
+      );
+      return countSnaps.reduce((sum, countSnap) => sum + countSnap.data().count, 0);
+    },
+    [db, collectionPath]
+  );
+
+  /**
+   * Fetch one page without touching state. Pages without a cursor are
+   * reached from the nearest known cursor by reading past the pages in
+   * between in a few large queries, or from the end of the result set
+   * when that's closer.
+   */
+  const fetchPage = useCallback(
+    async (pageIndex: number): Promise<{ docs: QueryDocumentSnapshot[]; hasNext: boolean }> => {
+      const coll = collection(db, collectionPath);
+      const { constraintSets, orderFields, conflict } = buildConstraints();
+      if (conflict) throw new Error(conflict);
+      if (constraintSets.length > 1) return fetchMergedPage(constraintSets, orderFields, pageIndex);
+      const constraints = constraintSets[0];
+
+      // Nearest page before the target whose cursor we know
+      let known = pageIndex - 1;
+      while (known > 0 && cursorIndexRef.current.cursors[known] === undefined) known--;
+      const toSkip = (pageIndex - 1 - known) * pageSize;
+
+      // Near the end, count back from the last document instead. The total is
+      // counted again first: from a stale one, limitToLast lands on the wrong page.
+      let fromEnd: number | undefined;
+      if (withTotalCount && toSkip > 0) {
+        totalCountRef.current = await countMatches(constraintSets);
+        fromEnd = totalCountRef.current - (pageIndex - 1) * pageSize;
+      }
+      if (fromEnd !== undefined && fromEnd > 0 && fromEnd < toSkip) {
+        const snap = await getDocs(query(coll, ...constraints, limitToLast(fromEnd)));
+        recordCursors(pageIndex - 1, snap.docs);
+        return { docs: snap.docs.slice(0, pageSize), hasNext: snap.docs.length > pageSize };
+      }
+
+      let cursor = cursorIndexRef.current.cursors[known] ?? null;
+      let skipped = 0;
+      while (skipped < toSkip) {
+        const take = Math.min(SKIP_BATCH_SIZE, toSkip - skipped);
+        const snap = await getDocs(
+          cursor
+            ? query(coll, ...constraints, startAfter(cursor), limit(take))
+            : query(coll, ...constraints, limit(take))
+        );
+        // Batches always end on a page boundary because toSkip is a multiple of pageSize
+        recordCursors(known + skipped / pageSize, snap.docs);
+        if (!snap.docs.length) break;
+        cursor = snap.docs[snap.docs.length - 1];
+        skipped += snap.docs.length;
+        if (snap.docs.length < take) break; // past the last document
+      }
+
+      const take = limit(pageSize + 1); // +1 to detect next page
+      const snap = await getDocs(
+        cursor
+          ? query(coll, ...constraints, startAfter(cursor), take)
+          : query(coll, ...constraints, take)
+      );
+      const docs = snap.docs;
+      return { docs: docs.slice(0, pageSize), hasNext: docs.length > pageSize };
+    },
+    [db, collectionPath, pageSize, withTotalCount, buildConstraints, recordCursors, fetchMergedPage, countMatches]
+  );
 
   const runPage = useCallback(
     async (pageIndex: number) => {
+      const requestId = ++requestRef.current;
       setLoading(true);
       setError(null);
       try {
-        const coll = collection(db, collectionPath);
-        const { constraints } = buildConstraints();
-
-        const take = limit(pageSize + 1); // +1 to detect next page
-        const after = cursorsRef.current[pageIndex - 1]; // null on first page
-
-        const q = after
-          ? query(coll, ...constraints, startAfter(after), take)
-          : query(coll, ...constraints, take);
-
-        const snap = await getDocs(q);
-        const docs = snap.docs;
-        const moreThanPage = docs.length > pageSize;
-        const pageDocs = moreThanPage ? docs.slice(0, pageSize) : docs;
+        const { docs: pageDocs, hasNext: moreThanPage } = await fetchPage(pageIndex);
+        if (requestId !== requestRef.current) return;
 
         setData(pageDocs.map((d) => ({ id: d.id, ...(d.data() as T) })) as T[]);
         setHasNext(moreThanPage);
 
-        cursorsRef.current[pageIndex] =
+        cursorIndexRef.current.cursors[pageIndex] =
           pageDocs.length ? pageDocs[pageDocs.length - 1] : null;
 
+        // Docs that arrived while away from page 1 are highlighted once it's shown again
+        setNewIds(pageIndex === 1 ? pendingIdsRef.current : []);
+        if (pageIndex === 1) {
+          pendingIdsRef.current = [];
+          setNewCount(0);
+        }
+
+        pageRef.current = pageIndex;
         setPage(pageIndex);
       } catch (e: any) {
-        setError(e?.message ?? "Failed to fetch data");
+        if (requestId === requestRef.current && !fallBackOnMissingIndex(e)) {
+          setError(e?.message ?? "Failed to fetch data");
+        }
       } finally {
-        setLoading(false);
+        if (requestId === requestRef.current) setLoading(false);
       }
     },
-    [db, collectionPath, pageSize, buildConstraints]
+    [fetchPage, fallBackOnMissingIndex]
   );
 
   const fetchCount = useCallback(async () => {
     if (!withTotalCount) {
+      totalCountRef.current = undefined;
       setTotalCount(undefined);
       return;
     }
     try {
-      const coll = collection(db, collectionPath);
-      const { constraints } = buildConstraints();
-      const countSnap = await getCountFromServer(query(coll, ...constraints));
-      setTotalCount(countSnap.data().count);
+      const { constraintSets, conflict } = buildConstraints();
+      if (conflict) throw new Error(conflict);
+      totalCountRef.current = await countMatches(constraintSets);
+      setTotalCount(totalCountRef.current);
     } catch {
+      totalCountRef.current = undefined;
       setTotalCount(undefined);
     }
-  }, [db, collectionPath, buildConstraints, withTotalCount]);
+  }, [buildConstraints, countMatches, withTotalCount]);
+
+  // Read when the query changes; changing it alone doesn't reload
+  const startPageRef = useRef(startPage);
+  useEffect(() => {
+    startPageRef.current = startPage;
+  }, [startPage]);
 
   // Reset & load when deps change
   useEffect(() => {
-    cursorsRef.current = [null];
-    setPage(1);
+    const target = startPageRef.current;
+    cursorIndexRef.current = getCursorIndex(queryKey);
+    totalCountRef.current = undefined;
+    pageRef.current = target;
+    setPage(target);
     setData([]);
     setHasNext(false);
     setError(null);
-    runPage(1);
+    setNewIds([]);
+    pendingIdsRef.current = [];
+    setNewCount(0);
+    runPage(target);
     fetchCount();
-  }, [runPage, fetchCount]);
+  }, [queryKey, runPage, fetchCount]);
+
+  // Live mode: listen to page 1. While it's shown its rows follow the
+  // listener; on later pages new arrivals are only counted.
+  useEffect(() => {
+    if (!live) return;
+
+    const coll = collection(db, collectionPath);
+    const { constraintSets, conflict } = buildConstraints();
+    if (conflict || constraintSets.length > 1) return;
+    const constraints = constraintSets[0];
+    let initial = true;
+
+    const unsubscribe = onSnapshot(
+      query(coll, ...constraints, limit(pageSize + 1)),
+      (snap) => {
+        // runPage(1) already rendered the first snapshot
+        if (initial) {
+          initial = false;
+          return;
+        }
+
+        const changes = snap.docChanges();
+        // A doc entering at the +1 slot moved up because another one left; it isn't new
+        const added = changes
+          .filter((c) => c.type === "added" && c.newIndex < pageSize)
+          .map((c) => c.doc.id);
+        if (changes.some((c) => c.type !== "modified")) fetchCount();
+
+        if (pageRef.current !== 1) {
+          if (added.length) {
+            pendingIdsRef.current = [...pendingIdsRef.current, ...added];
+            setNewCount(pendingIdsRef.current.length);
+          }
+          return;
+        }
+
+        const pageDocs = snap.docs.slice(0, pageSize);
+        setData(pageDocs.map((d) => ({ id: d.id, ...(d.data() as T) })) as T[]);
+        setHasNext(snap.docs.length > pageSize);
+        // Later pages have shifted; their cursors are rebuilt on demand
+        cursorIndexRef.current.cursors = [null, pageDocs.length ? pageDocs[pageDocs.length - 1] : null];
+
+        const shownIds = new Set(pageDocs.map((d) => d.id));
+        setNewIds((ids) => [...ids, ...added].filter((id) => shownIds.has(id)));
+      },
+      (e) => {
+        if (!fallBackOnMissingIndex(e)) setError(e.message);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [live, db, collectionPath, pageSize, buildConstraints, fetchCount, fallBackOnMissingIndex]);
 
   const nextPage = useCallback(async () => {
     if (loading || !hasNext) return;
@@ -208,26 +631,26 @@ export function useFirestoreSearchWithServerSidePagination<T = DocumentData>(
   const goToPage = useCallback(
     async (target: number) => {
       if (target < 1) return;
-      // Step forward to build cursors on demand
-      while (cursorsRef.current.length <= target - 1) {
-        const k = cursorsRef.current.length; // next page to build
-        // eslint-disable-next-line no-await-in-loop
-        await runPage(k);
-      }
+      // Intermediate pages are read past inside fetchPage, never rendered
       await runPage(target);
     },
     [runPage]
   );
 
   const reset = useCallback(() => {
-    cursorsRef.current = [null];
+    cursorIndexRef.current = getCursorIndex(queryKey, true);
+    totalCountRef.current = undefined;
+    pageRef.current = 1;
     setPage(1);
     setData([]);
     setHasNext(false);
     setError(null);
+    setNewIds([]);
+    pendingIdsRef.current = [];
+    setNewCount(0);
     runPage(1);
     fetchCount();
-  }, [runPage, fetchCount]);
+  }, [queryKey, runPage, fetchCount]);
 
   const totalPages =
     totalCount !== undefined ? Math.max(1, Math.ceil(totalCount / pageSize)) : undefined;
@@ -241,6 +664,10 @@ export function useFirestoreSearchWithServerSidePagination<T = DocumentData>(
     hasNext,
     totalCount,
     totalPages,
+    orderedBy: effectiveOrderByField,
+    sortFallback,
+    newIds,
+    newCount,
     nextPage,
     prevPage,
     goToPage,
@@ -0,0 +1,186 @@
+import {
+    collection,
+    getDocs,
+    limit,
+    orderBy,
+    query,
+    startAfter,
+    where,
+    type QueryConstraint,
+    type QueryDocumentSnapshot,
+    type Timestamp
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from '../config/firebase';
+
+/** Every action that is written to the audit log. Keep in sync with functions/src/audit.ts */
+export type AuditAction =
+    | 'packages.bulk-delete'
+    | 'packages.restore'
+    | 'packages.purge'
+    | 'packages.archive'
+    | 'packages.backfill'
+    | 'duplicates.confirm'
+    | 'duplicates.dismiss'
+    | 'device.rename'
+    | 'device.migrate'
+    | 'carrier.create'
+    | 'carrier.map'
+    | 'user.invite'
+    | 'user.role-change'
+    | 'user.disable'
+    | 'user.enable'
+    | 'stats.rebuild'
+    | 'settings.update';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'packages.bulk-delete': 'Packages deleted',
+    'packages.restore': 'Packages restored',
+    'packages.purge': 'Packages purged',
+    'packages.archive': 'Packages archived',
+    'packages.backfill': 'Search fields backfilled',
+    'duplicates.confirm': 'Duplicates confirmed',
+    'duplicates.dismiss': 'Duplicates dismissed',
+    'device.rename': 'Device renamed',
+    'device.migrate': 'Device migrated',
+    'carrier.create': 'Carrier created',
+    'carrier.map': 'Carrier mapping changed',
+    'user.invite': 'User invited',
+    'user.role-change': 'Role changed',
+    'user.disable': 'User disabled',
+    'user.enable': 'User re-enabled',
+    'stats.rebuild': 'Statistics rebuilt',
+    'settings.update': 'Settings changed'
+};
+
+export interface AuditActor {
+    uid: string;
+    email: string | null;
+}
+
+export interface AuditTarget {
+    type: 'packages' | 'device' | 'carrier' | 'user' | 'stats' | 'settings';
+    id: string;
+    label?: string;
+}
+
+/** One document of the auditLog collection */
+export interface AuditEntry {
+    id: string;
+    action: AuditAction;
+    actorUid: string;
+    actorEmail: string | null;
+    targetType: AuditTarget['type'];
+    targetId: string;
+    targetLabel: string | null;
+    details: Record<string, unknown>;
+    at: Timestamp | null;
+}
+
+export interface AuditLogFilter {
+    action?: AuditAction;
+    actorEmail?: string;
+    targetId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+export interface AuditLogPage {
+    entries: AuditEntry[];
+    cursor: QueryDocumentSnapshot | null;
+}
+
+const AUDIT_LOG_COLLECTION = 'auditLog';
+
+/**
+ * Get the signed-in user as an audit actor
+ * @returns The actor, or null when nobody is signed in
+ */
+export function getCurrentActor(): AuditActor | null {
+    const user = auth.currentUser;
+    return user ? { uid: user.uid, email: user.email } : null;
+}
+
+/**
+ * Append an entry to the audit log through the recordAuditEntry function, which
+ * records the verified caller as the actor. Failures are logged rather than thrown
+ * so a missing audit entry never turns a completed action into a reported failure.
+ * @param action - What was done
+ * @param actor - Who did it; entries without a signed-in actor are skipped
+ * @param target - What it was done to
+ * @param details - Action-specific context such as counts or previous values
+ */
+export async function recordAudit(
+    action: AuditAction,
+    actor: AuditActor | null,
+    target: AuditTarget,
+    details: Record<string, unknown> = {}
+): Promise<void> {
+    if (!actor) {
+        console.warn(`Skipping audit entry for ${action}: no signed-in user`);
+        return;
+    }
+
+    try {
+        const record = httpsCallable<{ action: AuditAction; target: AuditTarget; details: Record<string, unknown> }, void>(
+            functions,
+            'recordAuditEntry'
+        );
+        await record({ action, target, details });
+    } catch (error) {
+        console.error('Error recording audit entry:', error);
+    }
+}
+
+function buildAuditConstraints(filter: AuditLogFilter): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+    if (filter.action) constraints.push(where('action', '==', filter.action));
+    if (filter.actorEmail) constraints.push(where('actorEmail', '==', filter.actorEmail.trim().toLowerCase()));
+    if (filter.targetId) constraints.push(where('targetId', '==', filter.targetId));
+    if (filter.from) constraints.push(where('at', '>=', filter.from));
+    if (filter.to) constraints.push(where('at', '<=', filter.to));
+    constraints.push(orderBy('at', 'desc'));
+    return constraints;
+}
+
+/**
+ * Get one page of audit entries, newest first (admin only)
+ * @param filter - Optional action, actor, target and date filters
+ * @param pageSize - Maximum number of entries
+ * @param cursor - The cursor returned with the previous page
+ */
+export async function getAuditLog(
+    filter: AuditLogFilter = {},
+    pageSize = 50,
+    cursor: QueryDocumentSnapshot | null = null
+): Promise<AuditLogPage> {
+    try {
+        const constraints = buildAuditConstraints(filter);
+        if (cursor) constraints.push(startAfter(cursor));
+        constraints.push(limit(pageSize));
+
+        const snapshot = await getDocs(query(collection(db, AUDIT_LOG_COLLECTION), ...constraints));
+        return {
+            entries: snapshot.docs.map(d => ({ ...(d.data() as Omit<AuditEntry, 'id'>), id: d.id })),
+            cursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null
+        };
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get every audit entry matching a filter, e.g. for export (admin only)
+ * @param filter - Optional action, actor, target and date filters
+ */
+export async function getAllAuditEntries(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    let cursor: QueryDocumentSnapshot | null = null;
+    do {
+        const page: AuditLogPage = await getAuditLog(filter, 500, cursor);
+        entries.push(...page.entries);
+        cursor = page.cursor;
+    } while (cursor);
+    return entries;
+}
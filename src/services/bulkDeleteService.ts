@@ -0,0 +1,271 @@
+import {
+    addDoc,
+    collection,
+    doc,
+    getCountFromServer,
+    getDocs,
+    limit,
+    orderBy,
+    query,
+    serverTimestamp,
+    updateDoc,
+    where,
+    writeBatch,
+    type Query,
+    type Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { normalizeCarrierCounts } from '../config/carriers';
+import { getCurrentActor, recordAudit } from './auditService';
+import { getDailyStatsRange } from './statsService';
+import { PACKAGES_TRASH_COLLECTION, restoreDeleteJob, toTrashedData } from './trashService';
+
+export type DeleteJobStatus = 'running' | 'cancelled' | 'completed' | 'discarded' | 'restored';
+
+/** One document of the deleteJobs collection; lets an interrupted deletion be resumed */
+export interface DeleteJob {
+    id: string;
+    startYmd: string;
+    endYmd: string;
+    status: DeleteJobStatus;
+    expected: number;
+    deleted: number;
+    createdBy: string;
+    createdAt: Timestamp | null;
+    updatedAt: Timestamp | null;
+}
+
+export interface DeletePreviewRow {
+    key: string;
+    count: number;
+}
+
+/** What a deletion would remove, shown before anything is deleted */
+export interface DeletePreview {
+    total: number;
+    days: DeletePreviewRow[];
+    carriers: DeletePreviewRow[];
+    devices: DeletePreviewRow[];
+}
+
+export interface DeleteProgress {
+    deleted: number;
+    expected: number;
+}
+
+const PACKAGES_COLLECTION = 'packages';
+const DELETE_JOBS_COLLECTION = 'deleteJobs';
+
+// Moving a package to the recycle bin takes two writes; Firestore allows 500 per batch
+const DELETE_BATCH_SIZE = 200;
+
+/**
+ * Query for every package scanned between two days, inclusive
+ * @param startYmd - First day in yyyyMMdd format
+ * @param endYmd - Last day in yyyyMMdd format
+ */
+function packagesInRangeQuery(startYmd: string, endYmd: string): Query {
+    return query(
+        collection(db, PACKAGES_COLLECTION),
+        where('dateYmd', '>=', startYmd),
+        where('dateYmd', '<=', endYmd),
+        orderBy('dateYmd')
+    );
+}
+
+const toRows = (counts: Record<string, number>): DeletePreviewRow[] =>
+    Object.entries(counts)
+        .filter(([, count]) => count > 0)
+        .map(([key, count]) => ({ key, count }))
+        .sort((a, b) => b.count - a.count);
+
+/**
+ * Dry run of a deletion: how many packages it would remove, per day, carrier and device.
+ * The breakdowns come from the daily rollups; the total is counted on the server.
+ * @param startYmd - First day in yyyyMMdd format
+ * @param endYmd - Last day in yyyyMMdd format
+ */
+export async function previewDeleteRange(startYmd: string, endYmd: string): Promise<DeletePreview> {
+    try {
+        const [countSnapshot, days] = await Promise.all([
+            getCountFromServer(packagesInRangeQuery(startYmd, endYmd)),
+            getDailyStatsRange(startYmd, endYmd)
+        ]);
+
+        const carriers: Record<string, number> = {};
+        const devices: Record<string, number> = {};
+        days.forEach(day => {
+            Object.entries(day.carriers || {}).forEach(([name, count]) => {
+                carriers[name] = (carriers[name] || 0) + count;
+            });
+            Object.entries(day.devices || {}).forEach(([deviceId, count]) => {
+                devices[deviceId] = (devices[deviceId] || 0) + count;
+            });
+        });
+
+        return {
+            total: countSnapshot.data().count,
+            days: days
+                .filter(day => day.total > 0)
+                .map(day => ({ key: day.dateYmd, count: day.total })),
+            carriers: toRows(normalizeCarrierCounts(carriers)),
+            devices: toRows(devices)
+        };
+    } catch (error) {
+        console.error('Error previewing deletion:', error);
+        throw error;
+    }
+}
+
+/**
+ * Record a new deletion job before anything is deleted
+ * @param startYmd - First day in yyyyMMdd format
+ * @param endYmd - Last day in yyyyMMdd format
+ * @param expected - Number of packages the preview found
+ */
+export async function createDeleteJob(startYmd: string, endYmd: string, expected: number): Promise<DeleteJob> {
+    const actor = getCurrentActor();
+    if (!actor) {
+        throw new Error('You must be signed in to delete packages');
+    }
+
+    const job = {
+        startYmd,
+        endYmd,
+        status: 'running' as const,
+        expected,
+        deleted: 0,
+        createdBy: actor.email || actor.uid
+    };
+    const ref = await addDoc(collection(db, DELETE_JOBS_COLLECTION), {
+        ...job,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+    });
+    return { ...job, id: ref.id, createdAt: null, updatedAt: null };
+}
+
+/**
+ * Get the most recent deletion jobs, newest first
+ * @param max - Maximum number of jobs
+ */
+export async function getRecentDeleteJobs(max = 10): Promise<DeleteJob[]> {
+    try {
+        const snapshot = await getDocs(
+            query(collection(db, DELETE_JOBS_COLLECTION), orderBy('createdAt', 'desc'), limit(max))
+        );
+        return snapshot.docs.map(d => ({ ...(d.data() as Omit<DeleteJob, 'id'>), id: d.id }));
+    } catch (error) {
+        console.error('Error fetching delete jobs:', error);
+        return [];
+    }
+}
+
+/**
+ * Get deletion jobs that were cancelled or stopped before finishing, newest first
+ */
+export async function getUnfinishedDeleteJobs(): Promise<DeleteJob[]> {
+    try {
+        const snapshot = await getDocs(
+            query(collection(db, DELETE_JOBS_COLLECTION), where('status', 'in', ['running', 'cancelled']))
+        );
+        return snapshot.docs
+            .map(d => ({ ...(d.data() as Omit<DeleteJob, 'id'>), id: d.id }))
+            .sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0));
+    } catch (error) {
+        console.error('Error fetching unfinished delete jobs:', error);
+        return [];
+    }
+}
+
+/**
+ * Move a job's packages to the recycle bin in write batches until none are left or the signal is aborted.
+ * Each batch is committed and counted on the job document before the next one starts,
+ * so a job stopped at any point can be resumed by running it again.
+ * @param job - The job to run or resume
+ * @param onProgress - Called after every committed batch
+ * @param signal - Abort to stop after the current batch
+ * @returns The job's final state
+ */
+export async function runDeleteJob(
+    job: DeleteJob,
+    onProgress: (progress: DeleteProgress) => void,
+    signal?: AbortSignal
+): Promise<DeleteJob> {
+    const jobRef = doc(db, DELETE_JOBS_COLLECTION, job.id);
+    const rangeQuery = packagesInRangeQuery(job.startYmd, job.endYmd);
+    let deleted = job.deleted;
+
+    // A resumed job may find more (or fewer) packages than the original preview
+    const remaining = (await getCountFromServer(rangeQuery)).data().count;
+    const expected = deleted + remaining;
+    await updateDoc(jobRef, { status: 'running', expected, updatedAt: serverTimestamp() });
+    onProgress({ deleted, expected });
+
+    try {
+        for (;;) {
+            if (signal?.aborted) {
+                await updateDoc(jobRef, { status: 'cancelled', updatedAt: serverTimestamp() });
+                await recordDeletion(job, deleted, 'cancelled');
+                return { ...job, status: 'cancelled', expected, deleted };
+            }
+
+            const snapshot = await getDocs(query(rangeQuery, limit(DELETE_BATCH_SIZE)));
+            if (snapshot.empty) break;
+
+            const batch = writeBatch(db);
+            snapshot.docs.forEach(packageDoc => {
+                batch.set(doc(db, PACKAGES_TRASH_COLLECTION, packageDoc.id), toTrashedData(packageDoc.data(), job.id));
+                batch.delete(packageDoc.ref);
+            });
+            await batch.commit();
+
+            deleted += snapshot.size;
+            await updateDoc(jobRef, { deleted, updatedAt: serverTimestamp() });
+            onProgress({ deleted, expected: Math.max(expected, deleted) });
+        }
+
+        await updateDoc(jobRef, { status: 'completed', deleted, updatedAt: serverTimestamp() });
+        await recordDeletion(job, deleted, 'completed');
+        return { ...job, status: 'completed', expected, deleted };
+    } catch (error) {
+        console.error('Error deleting packages:', error);
+        throw error;
+    }
+}
+
+/**
+ * Give up on an unfinished job; packages it already deleted stay in the recycle bin.
+ * A job interrupted by a closed tab was never audited, so the discard records what it deleted.
+ * @param job - The job to discard
+ */
+export async function discardDeleteJob(job: DeleteJob): Promise<void> {
+    await updateDoc(doc(db, DELETE_JOBS_COLLECTION, job.id), {
+        status: 'discarded',
+        updatedAt: serverTimestamp()
+    });
+    await recordDeletion(job, job.deleted, 'discarded');
+}
+
+/**
+ * Undo a deletion by restoring everything it moved to the recycle bin
+ * @param job - The finished or discarded job to undo
+ * @returns Number of packages restored
+ */
+export async function undoDeleteJob(job: DeleteJob): Promise<number> {
+    const restored = await restoreDeleteJob(job.id);
+    await updateDoc(doc(db, DELETE_JOBS_COLLECTION, job.id), {
+        status: 'restored',
+        updatedAt: serverTimestamp()
+    });
+    return restored;
+}
+
+async function recordDeletion(job: DeleteJob, deletedCount: number, status: DeleteJobStatus): Promise<void> {
+    await recordAudit(
+        'packages.bulk-delete',
+        getCurrentActor(),
+        { type: 'packages', id: job.id, label: `${job.startYmd}..${job.endYmd}` },
+        { startYmd: job.startYmd, endYmd: job.endYmd, deletedCount, status }
+    );
+}
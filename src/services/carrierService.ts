@@ -0,0 +1,141 @@
+import {
+    arrayRemove,
+    arrayUnion,
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    onSnapshot,
+    query,
+    serverTimestamp,
+    setDoc,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+    CARRIERS,
+    UNKNOWN_CARRIER_ID,
+    toCarrierId,
+    type CarrierOverride
+} from '../config/carriers';
+import { getCurrentActor, recordAudit } from './auditService';
+
+const CARRIERS_COLLECTION = 'carriers';
+
+export interface NewCarrier {
+    name: string;
+    shortName?: string;
+    color?: string;
+}
+
+/**
+ * Listen to the carriers collection
+ * @param onChange - Called with every carrier document whenever any of them changes
+ * @param onError - Called if the listener fails
+ * @returns Function that stops listening
+ */
+export function subscribeToCarrierOverrides(
+    onChange: (overrides: CarrierOverride[]) => void,
+    onError?: (error: Error) => void
+): () => void {
+    return onSnapshot(
+        collection(db, CARRIERS_COLLECTION),
+        snapshot => {
+            onChange(snapshot.docs.map(d => ({ ...(d.data() as Omit<CarrierOverride, 'id'>), id: d.id })));
+        },
+        error => {
+            console.error('Error listening to carriers:', error);
+            onError?.(error);
+        }
+    );
+}
+
+/**
+ * Map a raw carrier name to a canonical carrier, replacing any previous mapping
+ * @param rawName - The raw carrier value as stored on packages
+ * @param carrierId - The canonical carrier ID, or null to fall back to automatic alias matching
+ */
+export async function mapRawCarrierName(rawName: string, carrierId: string | null): Promise<void> {
+    if (!rawName) {
+        throw new Error('Raw carrier name is required');
+    }
+
+    try {
+        const batch = writeBatch(db);
+
+        // A raw name can only belong to one carrier, so drop it everywhere first
+        const existing = await getDocs(
+            query(collection(db, CARRIERS_COLLECTION), where('rawNames', 'array-contains', rawName))
+        );
+        existing.docs.forEach(d => {
+            if (d.id !== carrierId) {
+                batch.update(d.ref, { rawNames: arrayRemove(rawName), updatedAt: serverTimestamp() });
+            }
+        });
+
+        if (carrierId) {
+            batch.set(
+                doc(db, CARRIERS_COLLECTION, carrierId),
+                { rawNames: arrayUnion(rawName), updatedAt: serverTimestamp() },
+                { merge: true }
+            );
+        }
+
+        await batch.commit();
+
+        await recordAudit(
+            'carrier.map',
+            getCurrentActor(),
+            { type: 'carrier', id: carrierId ?? 'auto', label: rawName },
+            { rawName, carrierId, previous: existing.docs.map(d => d.id) }
+        );
+    } catch (error) {
+        console.error('Error mapping carrier name:', error);
+        throw error;
+    }
+}
+
+/**
+ * Create a new canonical carrier
+ * @param carrier - Display name plus optional short name and color
+ * @returns The new carrier's ID
+ */
+export async function createCarrier(carrier: NewCarrier): Promise<string> {
+    const name = carrier.name.trim();
+    const id = toCarrierId(name);
+    if (!id) {
+        throw new Error('Carrier name is required');
+    }
+
+    if (id === UNKNOWN_CARRIER_ID || CARRIERS.some(definition => definition.id === id)) {
+        throw new Error(`A carrier named "${name}" already exists`);
+    }
+
+    try {
+        const carrierRef = doc(db, CARRIERS_COLLECTION, id);
+        const carrierDoc = await getDoc(carrierRef);
+        if (carrierDoc.exists() && carrierDoc.data().name) {
+            throw new Error(`A carrier named "${name}" already exists`);
+        }
+
+        await setDoc(
+            carrierRef,
+            {
+                name,
+                ...(carrier.shortName?.trim() ? { shortName: carrier.shortName.trim() } : {}),
+                ...(carrier.color ? { color: carrier.color } : {}),
+                aliases: [name],
+                createdAt: serverTimestamp(),
+                updatedAt: serverTimestamp()
+            },
+            { merge: true }
+        );
+
+        await recordAudit('carrier.create', getCurrentActor(), { type: 'carrier', id, label: name }, { name });
+        return id;
+    } catch (error) {
+        console.error('Error creating carrier:', error);
+        throw error;
+    }
+}
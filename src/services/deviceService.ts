@@ -11,6 +11,7 @@ import {
     runTransaction
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { getCurrentActor, recordAudit } from './auditService';
 
 export interface Device {
     deviceId: string;
@@ -201,12 +202,23 @@ export async function renameDevice(deviceId: string, newLabel: string): Promise<
 
     try {
         const deviceRef = doc(db, DEVICES_COLLECTION, deviceId);
-        await updateDoc(deviceRef, {
-            label: newLabel
+        // Read in the same transaction, so the audit entry has the label that was replaced
+        const previousLabel = await runTransaction(db, async transaction => {
+            const snapshot = await transaction.get(deviceRef);
+            if (!snapshot.exists()) throw new Error(`Device ${deviceId} not found`);
+            transaction.update(deviceRef, { label: newLabel });
+            return (snapshot.get('label') as string | undefined) ?? null;
         });
 
         // Update cache
         deviceLabelCache.set(deviceId, newLabel);
+
+        await recordAudit(
+            'device.rename',
+            getCurrentActor(),
+            { type: 'device', id: deviceId, label: newLabel },
+            { from: previousLabel, to: newLabel }
+        );
     } catch (error) {
         console.error('Error renaming device:', error);
         throw error;
@@ -257,6 +269,13 @@ export async function migrateDevice(deviceId: string, label: string): Promise<vo
             await setDoc(deviceRef, newDevice);
             deviceLabelCache.set(deviceId, label);
             console.log(`Migrated device ${deviceId} with label ${label}`);
+
+            await recordAudit(
+                'device.migrate',
+                getCurrentActor(),
+                { type: 'device', id: deviceId, label },
+                { label }
+            );
         }
     } catch (error) {
         console.error('Error migrating device:', error);
@@ -0,0 +1,183 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    limit,
+    onSnapshot,
+    orderBy,
+    query,
+    serverTimestamp,
+    setDoc,
+    where,
+    writeBatch,
+    type Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { getCurrentActor, recordAudit } from './auditService';
+
+/** settings/duplicates; mirrors functions/src/duplicates.ts */
+export interface DuplicateSettings {
+    enabled: boolean;
+    windowMinutes: number;
+    // same-device: only repeat scans from the same scanner count as duplicates
+    scope: 'same-device' | 'any-device';
+    excludeFromKpis: boolean;
+}
+
+export type DuplicateGroupStatus = 'pending' | 'confirmed' | 'dismissed';
+
+/** Every scan of one tracking number that was flagged as a duplicate, plus the original */
+export interface DuplicateGroup {
+    id: string;
+    tracking: string;
+    originalId: string;
+    packageIds: string[];
+    deviceIds: string[];
+    status: DuplicateGroupStatus;
+    lastDetectedAt: Timestamp | null;
+    reviewedBy?: string;
+    reviewedAt?: Timestamp | null;
+}
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+    enabled: true,
+    windowMinutes: 60,
+    scope: 'same-device',
+    excludeFromKpis: false
+};
+
+const PACKAGES_COLLECTION = 'packages';
+const DUPLICATE_GROUPS_COLLECTION = 'duplicateGroups';
+const SETTINGS_COLLECTION = 'settings';
+const DUPLICATE_SETTINGS_DOC = 'duplicates';
+
+const toDuplicateSettings = (data: Record<string, unknown>): DuplicateSettings => ({
+    enabled: typeof data.enabled === 'boolean' ? data.enabled : DEFAULT_DUPLICATE_SETTINGS.enabled,
+    windowMinutes: typeof data.windowMinutes === 'number' && data.windowMinutes > 0
+        ? data.windowMinutes
+        : DEFAULT_DUPLICATE_SETTINGS.windowMinutes,
+    scope: data.scope === 'any-device' ? 'any-device' : 'same-device',
+    excludeFromKpis: data.excludeFromKpis === true
+});
+
+/**
+ * Get the duplicate detection rules
+ */
+export async function getDuplicateSettings(): Promise<DuplicateSettings> {
+    try {
+        return toDuplicateSettings((await getDoc(doc(db, SETTINGS_COLLECTION, DUPLICATE_SETTINGS_DOC))).data() ?? {});
+    } catch (error) {
+        console.error('Error fetching duplicate settings:', error);
+        return DEFAULT_DUPLICATE_SETTINGS;
+    }
+}
+
+/**
+ * Listen to the duplicate detection rules, so the dashboard recounts as soon as they change
+ * @param onChange - Called with the rules; the defaults if they can't be read
+ * @returns Function that stops listening
+ */
+export function subscribeToDuplicateSettings(onChange: (settings: DuplicateSettings) => void): () => void {
+    return onSnapshot(
+        doc(db, SETTINGS_COLLECTION, DUPLICATE_SETTINGS_DOC),
+        snapshot => {
+            onChange(toDuplicateSettings(snapshot.data() ?? {}));
+        },
+        error => {
+            console.error('Error listening to duplicate settings:', error);
+            onChange(DEFAULT_DUPLICATE_SETTINGS);
+        }
+    );
+}
+
+/**
+ * Save the duplicate detection rules (admin only). New scans are checked against them right away;
+ * scans that were already flagged keep their flag.
+ * @param settings - The new rules
+ */
+export async function saveDuplicateSettings(settings: DuplicateSettings): Promise<void> {
+    if (!Number.isInteger(settings.windowMinutes) || settings.windowMinutes < 1) {
+        throw new Error('The time window must be a whole number of minutes');
+    }
+
+    try {
+        const previous = await getDuplicateSettings();
+        await setDoc(
+            doc(db, SETTINGS_COLLECTION, DUPLICATE_SETTINGS_DOC),
+            { ...settings, updatedAt: serverTimestamp() },
+            { merge: true }
+        );
+        await recordAudit(
+            'settings.update',
+            getCurrentActor(),
+            { type: 'settings', id: DUPLICATE_SETTINGS_DOC },
+            { from: previous, to: settings }
+        );
+    } catch (error) {
+        console.error('Error saving duplicate settings:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get duplicate groups with a given review status, most recently detected first (supervisor only)
+ * @param status - Review status to list
+ * @param max - Maximum number of groups
+ */
+export async function getDuplicateGroups(status: DuplicateGroupStatus, max = 100): Promise<DuplicateGroup[]> {
+    try {
+        const snapshot = await getDocs(
+            query(
+                collection(db, DUPLICATE_GROUPS_COLLECTION),
+                where('status', '==', status),
+                orderBy('lastDetectedAt', 'desc'),
+                limit(max)
+            )
+        );
+        return snapshot.docs.map(d => ({ ...(d.data() as Omit<DuplicateGroup, 'id'>), id: d.id }));
+    } catch (error) {
+        console.error('Error fetching duplicate groups:', error);
+        throw error;
+    }
+}
+
+/**
+ * Record a review decision on a group and its flagged scans (supervisor only).
+ * Confirmed duplicates stay flagged; dismissed ones count as regular scans again.
+ * @param group - The group that was reviewed
+ * @param status - confirmed or dismissed
+ */
+export async function reviewDuplicateGroup(
+    group: DuplicateGroup,
+    status: Exclude<DuplicateGroupStatus, 'pending'>
+): Promise<void> {
+    const actor = getCurrentActor();
+
+    try {
+        const batch = writeBatch(db);
+        batch.update(doc(db, DUPLICATE_GROUPS_COLLECTION, group.id), {
+            status,
+            reviewedBy: actor?.email || actor?.uid || 'unknown',
+            reviewedAt: serverTimestamp()
+        });
+
+        // The original scan is part of the group but never flagged
+        const flaggedIds = group.packageIds.filter(id => id !== group.originalId);
+        const flagged = await Promise.all(flaggedIds.map(id => getDoc(doc(db, PACKAGES_COLLECTION, id))));
+        flagged
+            .filter(snapshot => snapshot.exists())
+            .forEach(snapshot => batch.update(snapshot.ref, { duplicateStatus: status }));
+
+        await batch.commit();
+        await recordAudit(
+            status === 'confirmed' ? 'duplicates.confirm' : 'duplicates.dismiss',
+            actor,
+            { type: 'packages', id: group.id, label: group.tracking },
+            { packageIds: group.packageIds }
+        );
+    } catch (error) {
+        console.error('Error reviewing duplicate group:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,114 @@
+import {
+    collection,
+    getDocs,
+    query,
+    where
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../config/firebase';
+
+/** One scan of a package, as written by the scanner app */
+export interface PackageScan {
+    id: string;
+    tracking: string;
+    carrier?: unknown;
+    timestamp?: string;
+    dateYmd?: string;
+    deviceId?: string;
+    username?: string;
+    latitude?: number;
+    longitude?: number;
+    notes?: string;
+    // Derived by the onPackageSearchFields function
+    carrierName?: string;
+    scanHour?: number;
+    trackingReversed?: string;
+    trackingGrams?: string[];
+}
+
+export interface BackfillSearchFieldsResult {
+    packages: number;
+    updated: number;
+}
+
+const PACKAGES_COLLECTION = 'packages';
+
+const reverse = (value: string): string => value.split('').reverse().join('');
+
+// Most values Firestore accepts in one "in" filter
+const FIRESTORE_IN_LIMIT = 30;
+
+/**
+ * Shortest and longest pieces of a tracking number indexed in trackingGrams. A longer
+ * "contains" search runs on its first TRACKING_GRAM_MAX characters and is narrowed down
+ * on the client. Keep in sync with functions/src/searchFields.ts.
+ */
+export const TRACKING_GRAM_MIN = 4;
+export const TRACKING_GRAM_MAX = 10;
+
+/**
+ * Get every scan of a tracking number, oldest first
+ * @param tracking - The exact tracking number
+ */
+export async function getPackageScans(tracking: string): Promise<PackageScan[]> {
+    if (!tracking) return [];
+
+    try {
+        // Sorted here rather than in the query so no composite index is needed
+        const snapshot = await getDocs(
+            query(collection(db, PACKAGES_COLLECTION), where('tracking', '==', tracking))
+        );
+        return snapshot.docs
+            .map(d => ({ ...(d.data() as Omit<PackageScan, 'id'>), id: d.id }))
+            .sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+    } catch (error) {
+        console.error('Error fetching package scans:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get every scan of many tracking numbers at once, in "in" queries of up to
+ * FIRESTORE_IN_LIMIT numbers each. They run on trackingReversed, so a package
+ * stored in lower case or with spaces or dashes is found too.
+ * @param trackings - Normalized tracking numbers (see normalizeTrackingNumber)
+ * @returns Scans by normalized tracking number, oldest first; numbers never scanned are left out
+ */
+export async function getScansByTrackingNumber(trackings: string[]): Promise<Map<string, PackageScan[]>> {
+    const unique = Array.from(new Set(trackings.filter(Boolean)));
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += FIRESTORE_IN_LIMIT) {
+        chunks.push(unique.slice(i, i + FIRESTORE_IN_LIMIT));
+    }
+
+    try {
+        const snapshots = await Promise.all(
+            chunks.map(chunk => getDocs(query(
+                collection(db, PACKAGES_COLLECTION),
+                where('trackingReversed', 'in', chunk.map(reverse))
+            )))
+        );
+        const scans = new Map<string, PackageScan[]>();
+        snapshots.flatMap(snapshot => snapshot.docs).forEach(d => {
+            const scan = { ...(d.data() as Omit<PackageScan, 'id'>), id: d.id };
+            const tracking = reverse(scan.trackingReversed ?? '');
+            scans.set(tracking, [...(scans.get(tracking) ?? []), scan]);
+        });
+        scans.forEach(list => list.sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || '')));
+        return scans;
+    } catch (error) {
+        console.error('Error looking up tracking numbers:', error);
+        throw error;
+    }
+}
+
+/**
+ * Fill in the derived search fields (such as scanHour and the tracking number
+ * search index) on every existing package (admin only).
+ * New and edited packages get them automatically.
+ */
+export async function backfillSearchFields(): Promise<BackfillSearchFieldsResult> {
+    const backfill = httpsCallable<void, BackfillSearchFieldsResult>(functions, 'backfillSearchFields');
+    const result = await backfill();
+    return result.data;
+}
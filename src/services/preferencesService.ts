@@ -0,0 +1,45 @@
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+/** Dashboard settings each user chooses for themselves, stored at userPreferences/{uid} */
+export interface UserPreferences {
+    // Optional columns shown in the packages table on the dashboard
+    packageColumns?: string[];
+    // Saved searches shown as quick-filter chips above the packages table
+    pinnedSearches?: string[];
+}
+
+const USER_PREFERENCES_COLLECTION = 'userPreferences';
+
+/**
+ * Get a user's dashboard preferences
+ * @param uid - The Firebase Auth user ID
+ * @returns The stored preferences; empty when the user never changed any
+ */
+export async function getUserPreferences(uid: string): Promise<UserPreferences> {
+    try {
+        const snapshot = await getDoc(doc(db, USER_PREFERENCES_COLLECTION, uid));
+        return (snapshot.data() as UserPreferences | undefined) ?? {};
+    } catch (error) {
+        console.error('Error fetching user preferences:', error);
+        return {};
+    }
+}
+
+/**
+ * Save some of a user's dashboard preferences, leaving the others as they are
+ * @param uid - The Firebase Auth user ID
+ * @param preferences - The preferences to change
+ */
+export async function saveUserPreferences(uid: string, preferences: Partial<UserPreferences>): Promise<void> {
+    try {
+        await setDoc(
+            doc(db, USER_PREFERENCES_COLLECTION, uid),
+            { ...preferences, updatedAt: serverTimestamp() },
+            { merge: true }
+        );
+    } catch (error) {
+        console.error('Error saving user preferences:', error);
+        throw error;
+    }
+}
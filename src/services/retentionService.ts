@@ -0,0 +1,165 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    orderBy,
+    query,
+    serverTimestamp,
+    setDoc,
+    type Timestamp
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../config/firebase';
+import { getCurrentActor, recordAudit } from './auditService';
+
+/** Result of one archival run, as stored by the archivePackages function */
+export interface ArchiveRunResult {
+    cutoffYmd: string;
+    archived: number;
+    months: Record<string, number>;
+}
+
+/** settings/retention; see functions/src/retention.ts */
+export interface RetentionSettings {
+    enabled: boolean;
+    archiveAfterMonths: number;
+    // Zone dateYmd is written in; the archival job counts months in it, UTC until one is saved
+    timeZone: string | null;
+    archivedBeforeYmd: string | null;
+    lastRunAt: Timestamp | null;
+    lastRunResult: ArchiveRunResult | null;
+}
+
+/** Summary of one archived month, stored at packageArchives/{yyyyMM} */
+export interface PackageArchive {
+    month: string;
+    count: number;
+    chunkCount: number;
+    updatedAt: Timestamp | null;
+}
+
+const SETTINGS_COLLECTION = 'settings';
+const RETENTION_SETTINGS_DOC = 'retention';
+const ARCHIVES_COLLECTION = 'packageArchives';
+const CHUNKS_COLLECTION = 'chunks';
+
+/** Used until an admin saves a policy */
+export const DEFAULT_ARCHIVE_AFTER_MONTHS = 13;
+
+/** Zone the archival job counts months in until one is saved; mirrors functions/src/retention.ts */
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Whether the browser knows an IANA time zone, e.g. "America/Chicago"
+ * @param timeZone - The zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the retention policy and the outcome of the last archival run
+ */
+export async function getRetentionSettings(): Promise<RetentionSettings> {
+    try {
+        const data = (await getDoc(doc(db, SETTINGS_COLLECTION, RETENTION_SETTINGS_DOC))).data() ?? {};
+        return {
+            enabled: data.enabled === true,
+            archiveAfterMonths: typeof data.archiveAfterMonths === 'number' && data.archiveAfterMonths > 0
+                ? data.archiveAfterMonths
+                : DEFAULT_ARCHIVE_AFTER_MONTHS,
+            timeZone: data.timeZone ?? null,
+            archivedBeforeYmd: data.archivedBeforeYmd ?? null,
+            lastRunAt: data.lastRunAt ?? null,
+            lastRunResult: data.lastRunResult ?? null
+        };
+    } catch (error) {
+        console.error('Error fetching retention settings:', error);
+        throw error;
+    }
+}
+
+/**
+ * Save the retention policy (admin only). The daily archival job picks it up on its next run.
+ * @param enabled - Whether the scheduled job archives anything
+ * @param archiveAfterMonths - Packages are archived once their month is this many months old
+ * @param timeZone - Zone the months are counted in: the one the scanners write dateYmd in
+ */
+export async function saveRetentionPolicy(enabled: boolean, archiveAfterMonths: number, timeZone: string): Promise<void> {
+    if (!Number.isInteger(archiveAfterMonths) || archiveAfterMonths < 1) {
+        throw new Error('Retention must be a whole number of months');
+    }
+    if (!isValidTimeZone(timeZone)) {
+        throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    try {
+        const previous = await getRetentionSettings();
+        await setDoc(
+            doc(db, SETTINGS_COLLECTION, RETENTION_SETTINGS_DOC),
+            { enabled, archiveAfterMonths, timeZone, updatedAt: serverTimestamp() },
+            { merge: true }
+        );
+        await recordAudit(
+            'settings.update',
+            getCurrentActor(),
+            { type: 'settings', id: RETENTION_SETTINGS_DOC },
+            {
+                enabled: { from: previous.enabled, to: enabled },
+                archiveAfterMonths: { from: previous.archiveAfterMonths, to: archiveAfterMonths },
+                timeZone: { from: previous.timeZone, to: timeZone }
+            }
+        );
+    } catch (error) {
+        console.error('Error saving retention policy:', error);
+        throw error;
+    }
+}
+
+/**
+ * Archive expired packages now instead of waiting for the nightly job (admin only)
+ */
+export async function runArchival(): Promise<ArchiveRunResult | null> {
+    const run = httpsCallable<void, ArchiveRunResult | null>(functions, 'runArchival');
+    const result = await run();
+    return result.data;
+}
+
+/**
+ * Get every archived month, newest first (admin only)
+ */
+export async function getPackageArchives(): Promise<PackageArchive[]> {
+    try {
+        const snapshot = await getDocs(query(collection(db, ARCHIVES_COLLECTION), orderBy('month', 'desc')));
+        return snapshot.docs.map(d => d.data() as PackageArchive);
+    } catch (error) {
+        console.error('Error fetching package archives:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get an archived month as NDJSON, one package per line (admin only)
+ * @param month - The month in yyyyMM format
+ */
+export async function getArchiveNdjson(month: string): Promise<string> {
+    try {
+        const snapshot = await getDocs(collection(db, ARCHIVES_COLLECTION, month, CHUNKS_COLLECTION));
+        const lines: string[] = [];
+        snapshot.docs.forEach(chunk => {
+            (chunk.data().packages as Record<string, unknown>[] || []).forEach(pkg => {
+                lines.push(JSON.stringify(pkg));
+            });
+        });
+        return lines.join('\n') + (lines.length ? '\n' : '');
+    } catch (error) {
+        console.error('Error downloading archive:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,93 @@
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    doc,
+    getDocs,
+    query,
+    serverTimestamp,
+    where
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import type { SearchFilter } from '../pages/useFirestoreSearchWithServerSidePagination';
+
+/** A named packages search, either a user's own or a team-wide preset published by an admin */
+export interface SavedSearch {
+    id: string;
+    name: string;
+    ownerUid: string;
+    // Team presets are shown to everyone; only admins publish them
+    team: boolean;
+    // The query the search ran when it was saved
+    filters: SearchFilter[];
+    sort: { field: string; direction: 'asc' | 'desc' };
+    // Dashboard URL params that restore the filter controls, e.g. "carrier=fedex&date=today".
+    // Relative date presets stay relative, unlike the dates in `filters`.
+    params: string;
+}
+
+export type NewSavedSearch = Omit<SavedSearch, 'id' | 'ownerUid'>;
+
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+
+const byName = (a: SavedSearch, b: SavedSearch) => a.name.localeCompare(b.name);
+
+/**
+ * Get the searches a user can pick from
+ * @param uid - The Firebase Auth user ID
+ * @returns The user's own searches and the team presets, each sorted by name
+ */
+export async function getSavedSearches(uid: string): Promise<{ mine: SavedSearch[]; team: SavedSearch[] }> {
+    try {
+        const searches = collection(db, SAVED_SEARCHES_COLLECTION);
+        const [mineSnapshot, teamSnapshot] = await Promise.all([
+            getDocs(query(searches, where('ownerUid', '==', uid), where('team', '==', false))),
+            getDocs(query(searches, where('team', '==', true)))
+        ]);
+        const toSavedSearches = (snapshot: typeof mineSnapshot) =>
+            snapshot.docs.map(d => ({ ...(d.data() as Omit<SavedSearch, 'id'>), id: d.id })).sort(byName);
+        return { mine: toSavedSearches(mineSnapshot), team: toSavedSearches(teamSnapshot) };
+    } catch (error) {
+        console.error('Error fetching saved searches:', error);
+        throw error;
+    }
+}
+
+/**
+ * Save a search; team presets can only be saved by admins
+ * @param uid - The Firebase Auth user ID of whoever saves it
+ * @param search - The search to save
+ * @returns The saved search
+ */
+export async function createSavedSearch(uid: string, search: NewSavedSearch): Promise<SavedSearch> {
+    const name = search.name.trim();
+    if (!name) {
+        throw new Error('Give the search a name');
+    }
+
+    try {
+        const ref = await addDoc(collection(db, SAVED_SEARCHES_COLLECTION), {
+            ...search,
+            name,
+            ownerUid: uid,
+            createdAt: serverTimestamp()
+        });
+        return { ...search, name, ownerUid: uid, id: ref.id };
+    } catch (error) {
+        console.error('Error saving search:', error);
+        throw error;
+    }
+}
+
+/**
+ * Delete a saved search
+ * @param id - The saved search ID
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+    try {
+        await deleteDoc(doc(db, SAVED_SEARCHES_COLLECTION, id));
+    } catch (error) {
+        console.error('Error deleting saved search:', error);
+        throw error;
+    }
+}
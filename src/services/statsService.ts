@@ -0,0 +1,268 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    onSnapshot,
+    orderBy,
+    query,
+    where,
+    type Query
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { format } from 'date-fns';
+import { db, functions } from '../config/firebase';
+import type { TrackingCheckCounts } from '../config/trackingNumbers';
+import { getDuplicateSettings, subscribeToDuplicateSettings, type DuplicateSettings } from './duplicateService';
+
+/**
+ * Pre-aggregated scan counters for one day, maintained by the
+ * onPackageWritten Cloud Function. Carrier keys are raw scanner values.
+ */
+export interface DailyStats {
+    dateYmd: string;
+    total: number;
+    carriers: Record<string, number>;
+    devices: Record<string, number>;
+    // Keyed by the username of the operator who scanned; "unknown" when the scan has none
+    operators: Record<string, number>;
+    // Scans per raw carrier name and tracking number check; see countTrackingChecks() in config/trackingNumbers.ts
+    trackingChecks: TrackingCheckCounts;
+    // Scans flagged as duplicates and not dismissed; already included in the counts above,
+    // broken down the same way. See withoutDuplicates().
+    duplicates: number;
+    duplicateCarriers: Record<string, number>;
+    duplicateDevices: Record<string, number>;
+    duplicateOperators: Record<string, number>;
+    duplicateTrackingChecks: TrackingCheckCounts;
+    lastScanAt?: string;
+}
+
+export interface RebuildStatsResult {
+    packages: number;
+    days: number;
+}
+
+const DAILY_STATS_COLLECTION = 'dailyStats';
+
+/** Rollup key for scans without a username; mirrors functions/src/dailyStats.ts */
+export const UNKNOWN_OPERATOR = 'unknown';
+
+/**
+ * Read a rollup document, filling in counters it doesn't have yet
+ * @param id - The document ID (yyyyMMdd)
+ * @param data - The document data
+ */
+export function toDailyStats(id: string, data: Partial<DailyStats>): DailyStats {
+    return {
+        dateYmd: data.dateYmd || id,
+        total: data.total || 0,
+        carriers: data.carriers || {},
+        devices: data.devices || {},
+        operators: data.operators || {},
+        trackingChecks: data.trackingChecks || {},
+        duplicates: data.duplicates || 0,
+        duplicateCarriers: data.duplicateCarriers || {},
+        duplicateDevices: data.duplicateDevices || {},
+        duplicateOperators: data.duplicateOperators || {},
+        duplicateTrackingChecks: data.duplicateTrackingChecks || {},
+        lastScanAt: data.lastScanAt
+    };
+}
+
+const subtractCounts = (counts: Record<string, number>, remove: Record<string, number>): Record<string, number> => {
+    const result = { ...counts };
+    Object.entries(remove).forEach(([key, count]) => {
+        result[key] = (result[key] || 0) - count;
+    });
+    return result;
+};
+
+/**
+ * Take flagged duplicate scans out of every count of a rollup. Rollups written
+ * before duplicates were broken down by device, operator and tracking number
+ * check keep those counts until the statistics are rebuilt.
+ * @param stats - The rollup as stored
+ */
+export function withoutDuplicates(stats: DailyStats): DailyStats {
+    const trackingChecks: TrackingCheckCounts = {};
+    Object.entries(stats.trackingChecks).forEach(([carrier, checks]) => {
+        trackingChecks[carrier] = subtractCounts(checks, stats.duplicateTrackingChecks[carrier] || {});
+    });
+
+    return {
+        ...stats,
+        total: stats.total - stats.duplicates,
+        carriers: subtractCounts(stats.carriers, stats.duplicateCarriers),
+        devices: subtractCounts(stats.devices, stats.duplicateDevices),
+        operators: subtractCounts(stats.operators, stats.duplicateOperators),
+        trackingChecks,
+        duplicates: 0,
+        duplicateCarriers: {},
+        duplicateDevices: {},
+        duplicateOperators: {},
+        duplicateTrackingChecks: {}
+    };
+}
+
+// The duplicate settings decide whether the dashboard counts flagged duplicates
+const toDashboardStats = (days: DailyStats[], settings: DuplicateSettings): DailyStats[] =>
+    settings.excludeFromKpis ? days.map(withoutDuplicates) : days;
+
+/**
+ * Build the query for every rollup between two dates (inclusive)
+ * @param startYmd - First day as yyyyMMdd
+ * @param endYmd - Last day as yyyyMMdd
+ */
+export function dailyStatsRangeQuery(startYmd: string, endYmd: string): Query {
+    return query(
+        collection(db, DAILY_STATS_COLLECTION),
+        where('dateYmd', '>=', startYmd),
+        where('dateYmd', '<=', endYmd),
+        orderBy('dateYmd', 'asc')
+    );
+}
+
+/**
+ * Build the query for every rollup, oldest first
+ */
+export function allStatsQuery(): Query {
+    return query(collection(db, DAILY_STATS_COLLECTION), orderBy('dateYmd', 'asc'));
+}
+
+/**
+ * Build the query for every rollup in the month of the given date
+ * @param date - Any day within the month
+ */
+export function monthlyStatsQuery(date: Date): Query {
+    const month = format(date, 'yyyyMM');
+    return dailyStatsRangeQuery(`${month}01`, `${month}31`);
+}
+
+/**
+ * Get the rollup for a single day
+ * @param dateYmd - The day as yyyyMMdd
+ * @returns The rollup, or null when nothing was scanned that day
+ */
+export async function getDailyStats(dateYmd: string): Promise<DailyStats | null> {
+    const snapshot = await getDoc(doc(db, DAILY_STATS_COLLECTION, dateYmd));
+    return snapshot.exists() ? toDailyStats(snapshot.id, snapshot.data()) : null;
+}
+
+/**
+ * Get the rollups between two dates (inclusive), oldest first
+ * @param startYmd - First day as yyyyMMdd
+ * @param endYmd - Last day as yyyyMMdd
+ */
+export async function getDailyStatsRange(startYmd: string, endYmd: string): Promise<DailyStats[]> {
+    const snapshot = await getDocs(dailyStatsRangeQuery(startYmd, endYmd));
+    return snapshot.docs.map(d => toDailyStats(d.id, d.data()));
+}
+
+/**
+ * Get the rollups between two dates (inclusive) as the dashboard's KPIs and charts
+ * count them, oldest first: without flagged duplicates when the duplicate settings
+ * exclude them. Everything on the dashboard reads rollups through this or
+ * subscribeToDashboardStats, so its numbers agree with each other.
+ * @param startYmd - First day as yyyyMMdd
+ * @param endYmd - Last day as yyyyMMdd
+ */
+export async function getDashboardStatsRange(startYmd: string, endYmd: string): Promise<DailyStats[]> {
+    const [days, settings] = await Promise.all([getDailyStatsRange(startYmd, endYmd), getDuplicateSettings()]);
+    return toDashboardStats(days, settings);
+}
+
+/**
+ * Listen to rollups as the dashboard counts them (see getDashboardStatsRange)
+ * @param statsQuery - The rollups to listen to, e.g. monthlyStatsQuery()
+ * @param onChange - Called with the rollups in query order whenever they or the duplicate settings change
+ * @param onError - Called if the listener fails
+ * @returns Function that stops listening
+ */
+export function subscribeToDashboardStats(
+    statsQuery: Query,
+    onChange: (days: DailyStats[]) => void,
+    onError?: (error: Error) => void
+): () => void {
+    let days: DailyStats[] | null = null;
+    let settings: DuplicateSettings | null = null;
+    const emit = () => {
+        if (days && settings) onChange(toDashboardStats(days, settings));
+    };
+
+    const unsubscribeStats = onSnapshot(
+        statsQuery,
+        snapshot => {
+            days = snapshot.docs.map(d => toDailyStats(d.id, d.data()));
+            emit();
+        },
+        error => {
+            console.error('Error listening to daily stats:', error);
+            onError?.(error);
+        }
+    );
+    const unsubscribeSettings = subscribeToDuplicateSettings(next => {
+        settings = next;
+        emit();
+    });
+    return () => {
+        unsubscribeStats();
+        unsubscribeSettings();
+    };
+}
+
+/**
+ * Get every rollup, oldest first. There is one document per day with scans.
+ */
+export async function getAllDailyStats(): Promise<DailyStats[]> {
+    const snapshot = await getDocs(allStatsQuery());
+    return snapshot.docs.map(d => toDailyStats(d.id, d.data()));
+}
+
+/**
+ * Get the total scan count for every raw carrier name in the rollups, i.e.
+ * every value packages.carrier has taken, without reading the packages themselves
+ */
+export async function getRawCarrierCounts(): Promise<Record<string, number>> {
+    const days = await getAllDailyStats();
+    const counts: Record<string, number> = {};
+    days.forEach(stats => {
+        Object.entries(stats.carriers).forEach(([name, count]) => {
+            if (count > 0) counts[name] = (counts[name] || 0) + count;
+        });
+    });
+    return counts;
+}
+
+/**
+ * Get every raw carrier name that appears in the rollups, sorted
+ */
+export async function getSeenCarrierNames(): Promise<string[]> {
+    const counts = await getRawCarrierCounts();
+    return Object.keys(counts).sort();
+}
+
+/**
+ * Get every operator username that appears in the rollups, sorted.
+ * Scans without a username are left out since they can't be filtered on.
+ */
+export async function getSeenOperatorNames(): Promise<string[]> {
+    const days = await getAllDailyStats();
+    const names = new Set<string>();
+    days.forEach(stats => {
+        Object.entries(stats.operators).forEach(([name, count]) => {
+            if (count > 0 && name !== UNKNOWN_OPERATOR) names.add(name);
+        });
+    });
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Rebuild all rollups from the packages collection (server-side backfill)
+ * @returns How many packages were read and how many days were written
+ */
+export async function rebuildDailyStats(): Promise<RebuildStatsResult> {
+    const rebuild = httpsCallable<void, RebuildStatsResult>(functions, 'rebuildDailyStats');
+    const result = await rebuild();
+    return result.data;
+}
@@ -0,0 +1,246 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    limit,
+    orderBy,
+    query,
+    serverTimestamp,
+    setDoc,
+    startAfter,
+    where,
+    writeBatch,
+    type DocumentData,
+    type Query,
+    type QueryConstraint,
+    type QueryDocumentSnapshot,
+    type Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { getCurrentActor, recordAudit } from './auditService';
+
+/**
+ * Deleted packages are moved here instead of being removed, keeping their document ID.
+ * Because they leave the packages collection, the dashboard table, KPIs, charts and
+ * export never see them, and the daily rollups drop them until they are restored.
+ */
+export const PACKAGES_TRASH_COLLECTION = 'packages_trash';
+
+const PACKAGES_COLLECTION = 'packages';
+const SETTINGS_COLLECTION = 'settings';
+const RECYCLE_BIN_SETTINGS_DOC = 'recycleBin';
+
+// Fields added when a package is moved to the recycle bin
+const TRASH_FIELDS = ['deletedAt', 'deletedBy', 'deleteJobId'] as const;
+
+/** Days a package stays in the recycle bin when no setting has been saved */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Each restore or purge writes two documents per package; Firestore allows 500 writes per batch
+const TRASH_BATCH_SIZE = 200;
+
+export interface TrashedPackage {
+    id: string;
+    tracking?: string;
+    carrier?: unknown;
+    deviceId?: string;
+    dateYmd?: string;
+    timestamp?: string;
+    deletedAt: Timestamp | null;
+    deletedBy: string;
+    deleteJobId: string | null;
+}
+
+export interface TrashPage {
+    packages: TrashedPackage[];
+    cursor: QueryDocumentSnapshot | null;
+}
+
+/**
+ * The fields to store on a package when it is moved to the recycle bin
+ * @param data - The package document's data
+ * @param deleteJobId - The bulk deletion that removed it, if any
+ */
+export function toTrashedData(data: DocumentData, deleteJobId: string | null): DocumentData {
+    const actor = getCurrentActor();
+    return {
+        ...data,
+        deletedAt: serverTimestamp(),
+        deletedBy: actor?.email || actor?.uid || 'unknown',
+        deleteJobId
+    };
+}
+
+/**
+ * Get one page of the recycle bin, most recently deleted first (admin only)
+ * @param pageSize - Maximum number of packages
+ * @param cursor - The cursor returned with the previous page
+ */
+export async function getTrashedPackages(
+    pageSize = 50,
+    cursor: QueryDocumentSnapshot | null = null
+): Promise<TrashPage> {
+    try {
+        const constraints: QueryConstraint[] = [orderBy('deletedAt', 'desc')];
+        if (cursor) constraints.push(startAfter(cursor));
+        constraints.push(limit(pageSize));
+
+        const snapshot = await getDocs(query(collection(db, PACKAGES_TRASH_COLLECTION), ...constraints));
+        return {
+            packages: snapshot.docs.map(d => ({ ...(d.data() as Omit<TrashedPackage, 'id'>), id: d.id })),
+            cursor: snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : null
+        };
+    } catch (error) {
+        console.error('Error fetching recycle bin:', error);
+        throw error;
+    }
+}
+
+/**
+ * Move trashed packages back to the packages collection, or delete them for good
+ * @returns Number of packages processed
+ */
+async function processTrash(docs: QueryDocumentSnapshot[], restore: boolean): Promise<number> {
+    for (let i = 0; i < docs.length; i += TRASH_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        docs.slice(i, i + TRASH_BATCH_SIZE).forEach(trashDoc => {
+            if (restore) {
+                const data = { ...trashDoc.data() };
+                TRASH_FIELDS.forEach(field => delete data[field]);
+                batch.set(doc(db, PACKAGES_COLLECTION, trashDoc.id), data);
+            }
+            batch.delete(trashDoc.ref);
+        });
+        await batch.commit();
+    }
+    return docs.length;
+}
+
+async function processTrashQuery(q: Query, restore: boolean): Promise<number> {
+    let processed = 0;
+    for (;;) {
+        const snapshot = await getDocs(query(q, limit(TRASH_BATCH_SIZE)));
+        if (snapshot.empty) break;
+        processed += await processTrash(snapshot.docs, restore);
+    }
+    return processed;
+}
+
+async function getTrashDocs(ids: string[]): Promise<QueryDocumentSnapshot[]> {
+    const snapshots = await Promise.all(ids.map(id => getDoc(doc(db, PACKAGES_TRASH_COLLECTION, id))));
+    return snapshots.filter(snapshot => snapshot.exists()) as QueryDocumentSnapshot[];
+}
+
+/**
+ * Restore packages from the recycle bin (admin only)
+ * @param ids - Document IDs of the trashed packages
+ * @returns Number of packages restored
+ */
+export async function restorePackages(ids: string[]): Promise<number> {
+    try {
+        const restored = await processTrash(await getTrashDocs(ids), true);
+        await recordAudit(
+            'packages.restore',
+            getCurrentActor(),
+            { type: 'packages', id: 'selection', label: `${restored} packages` },
+            { ids, count: restored }
+        );
+        return restored;
+    } catch (error) {
+        console.error('Error restoring packages:', error);
+        throw error;
+    }
+}
+
+/**
+ * Restore everything a bulk deletion moved to the recycle bin (admin only)
+ * @param deleteJobId - The deletion job to undo
+ * @returns Number of packages restored
+ */
+export async function restoreDeleteJob(deleteJobId: string): Promise<number> {
+    try {
+        const restored = await processTrashQuery(
+            query(collection(db, PACKAGES_TRASH_COLLECTION), where('deleteJobId', '==', deleteJobId)),
+            true
+        );
+        await recordAudit('packages.restore', getCurrentActor(), { type: 'packages', id: deleteJobId }, { count: restored });
+        return restored;
+    } catch (error) {
+        console.error('Error restoring deletion:', error);
+        throw error;
+    }
+}
+
+/**
+ * Permanently delete packages from the recycle bin (admin only)
+ * @param ids - Document IDs of the trashed packages
+ * @returns Number of packages purged
+ */
+export async function purgePackages(ids: string[]): Promise<number> {
+    try {
+        const purged = await processTrash(await getTrashDocs(ids), false);
+        await recordAudit(
+            'packages.purge',
+            getCurrentActor(),
+            { type: 'packages', id: 'selection', label: `${purged} packages` },
+            { ids, count: purged }
+        );
+        return purged;
+    } catch (error) {
+        console.error('Error purging packages:', error);
+        throw error;
+    }
+}
+
+/**
+ * Permanently delete everything in the recycle bin (admin only)
+ * @returns Number of packages purged
+ */
+export async function emptyTrash(): Promise<number> {
+    try {
+        const purged = await processTrashQuery(collection(db, PACKAGES_TRASH_COLLECTION), false);
+        await recordAudit('packages.purge', getCurrentActor(), { type: 'packages', id: PACKAGES_TRASH_COLLECTION }, { count: purged });
+        return purged;
+    } catch (error) {
+        console.error('Error emptying recycle bin:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get how many days packages stay in the recycle bin before they are purged automatically
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+    try {
+        const snapshot = await getDoc(doc(db, SETTINGS_COLLECTION, RECYCLE_BIN_SETTINGS_DOC));
+        const days = snapshot.data()?.retentionDays;
+        return typeof days === 'number' && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch (error) {
+        console.error('Error fetching recycle bin settings:', error);
+        return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+}
+
+/**
+ * Change how long packages stay in the recycle bin (admin only)
+ * @param retentionDays - Whole number of days, at least 1
+ */
+export async function setTrashRetentionDays(retentionDays: number): Promise<void> {
+    if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+        throw new Error('Retention must be a whole number of days');
+    }
+
+    const previous = await getTrashRetentionDays();
+    await setDoc(
+        doc(db, SETTINGS_COLLECTION, RECYCLE_BIN_SETTINGS_DOC),
+        { retentionDays, updatedAt: serverTimestamp() },
+        { merge: true }
+    );
+    await recordAudit(
+        'settings.update',
+        getCurrentActor(),
+        { type: 'settings', id: RECYCLE_BIN_SETTINGS_DOC },
+        { retentionDays: { from: previous, to: retentionDays } }
+    );
+}
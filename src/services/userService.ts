@@ -0,0 +1,137 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { sendPasswordResetEmail } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from '../config/firebase';
+import { toUserRole, type UserRole } from '../config/roles';
+import { getAuditLog, type AuditEntry } from './auditService';
+
+export interface UserProfile {
+    role: UserRole;
+    disabled: boolean;
+}
+
+/** A dashboard account as returned by the listUsers function */
+export interface ManagedUser {
+    uid: string;
+    email: string | null;
+    displayName: string | null;
+    role: UserRole;
+    disabled: boolean;
+    createdAt: string | null;
+    lastSignInAt: string | null;
+}
+
+export interface InviteUserInput {
+    email: string;
+    displayName?: string;
+    role: UserRole;
+}
+
+export interface InviteUserResult {
+    user: ManagedUser;
+    // False when the account was created but the password setup email failed;
+    // send it again with sendPasswordSetupEmail
+    emailSent: boolean;
+    emailError?: string;
+}
+
+const USERS_COLLECTION = 'users';
+
+/**
+ * Listen to a user's profile document (users/{uid}) so role changes apply immediately
+ * @param uid - The Firebase Auth user ID
+ * @param onChange - Called with the profile; accounts without a document get the default role
+ * @returns Function that stops listening
+ */
+export function subscribeToUserProfile(
+    uid: string,
+    onChange: (profile: UserProfile) => void
+): () => void {
+    return onSnapshot(
+        doc(db, USERS_COLLECTION, uid),
+        snapshot => {
+            const data = snapshot.data();
+            onChange({ role: toUserRole(data?.role), disabled: data?.disabled === true });
+        },
+        error => {
+            console.error('Error loading user profile:', error);
+            onChange({ role: toUserRole(undefined), disabled: false });
+        }
+    );
+}
+
+/**
+ * Get every dashboard account with its role (admin only)
+ */
+export async function listUsers(): Promise<ManagedUser[]> {
+    const list = httpsCallable<void, ManagedUser[]>(functions, 'listUsers');
+    const result = await list();
+    return result.data;
+}
+
+/**
+ * Email a user a link to set their password. The password reset flow doubles
+ * as "set your password" for new accounts.
+ * @param email - The account's email address
+ */
+export async function sendPasswordSetupEmail(email: string): Promise<void> {
+    await sendPasswordResetEmail(auth, email.trim().toLowerCase());
+}
+
+/**
+ * Create an account for a new user and email them a link to set their password (admin only).
+ * The account is kept when only the email fails, so it can be sent again.
+ * @param input - Email, optional display name and the role to grant
+ * @returns The new account and whether the email went out
+ */
+export async function inviteUser(input: InviteUserInput): Promise<InviteUserResult> {
+    const invite = httpsCallable<InviteUserInput, ManagedUser>(functions, 'inviteUser');
+    const result = await invite(input);
+
+    try {
+        await sendPasswordSetupEmail(input.email);
+        return { user: result.data, emailSent: true };
+    } catch (error) {
+        console.error('Error sending password setup email:', error);
+        return {
+            user: result.data,
+            emailSent: false,
+            emailError: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+/**
+ * Change a user's role (admin only)
+ * @param uid - The user to update
+ * @param role - The new role
+ */
+export async function setUserRole(uid: string, role: UserRole): Promise<void> {
+    const update = httpsCallable<{ uid: string; role: UserRole }, void>(functions, 'setUserRole');
+    await update({ uid, role });
+}
+
+/**
+ * Disable or re-enable a user's account (admin only)
+ * @param uid - The user to update
+ * @param disabled - True to disable and sign them out, false to re-enable
+ */
+export async function setUserDisabled(uid: string, disabled: boolean): Promise<void> {
+    const update = httpsCallable<{ uid: string; disabled: boolean }, void>(functions, 'setUserDisabled');
+    await update({ uid, disabled });
+}
+
+/**
+ * Get the most recent audit entries for a user's account, newest first (admin only)
+ * @param uid - The user whose history to load
+ * @param max - Maximum number of entries
+ */
+export async function getUserHistory(uid: string, max = 20): Promise<AuditEntry[]> {
+    try {
+        const page = await getAuditLog({ targetId: uid }, max);
+        return page.entries;
+    } catch (error) {
+        console.error('Error fetching user history:', error);
+        return [];
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * CSV reading and writing for the dashboard's exports and uploads.
+ *
+ * Every value is written quoted and as is; files meant for Excel, which turns
+ * long numbers into scientific notation, are written as XLSX instead (utils/xlsx.ts).
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+const quote = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * The header line of a CSV file
+ * @param columns - Header and value of each column
+ */
+export const toCsvHeader = <T>(columns: CsvColumn<T>[]): string =>
+  columns.map(column => column.header).join(',') + '\n';
+
+/**
+ * CSV lines for some rows, without the header, for files written in pieces
+ * @param columns - Header and value of each column
+ * @param rows - The rows to write
+ */
+export const toCsvRows = <T>(columns: CsvColumn<T>[], rows: T[]): string => {
+  let csvContent = '';
+  rows.forEach(row => {
+    csvContent += columns.map(column => quote(String(column.value(row) ?? ''))).join(',') + '\n';
+  });
+  return csvContent;
+};
+
+/**
+ * Build a CSV file, one line per row
+ * @param columns - Header and value of each column
+ * @param rows - The rows to write
+ */
+export const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string =>
+  toCsvHeader(columns) + toCsvRows(columns, rows);
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, and the ="..." text form older exports used.
+ * @param text - The file contents
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === '=' && cell === '' && text[i + 1] === '"') {
+      // ="value": Excel's text form; keep only the value
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Save a file through the browser's download
+ * @param content - The file contents
+ * @param filename - Suggested file name
+ * @param type - MIME type, e.g. 'text/csv;charset=utf-8;'
+ */
+export const downloadFile = (content: BlobPart, filename: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Released once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,92 @@
+/**
+ * Write a download piece by piece, so a large export never sits in memory
+ * as one string.
+ *
+ * Where the File System Access API is available the user picks the file
+ * first and every piece goes straight to disk through a WritableStream.
+ * Elsewhere the pieces are kept as Blob parts, which the browser can page out,
+ * and downloaded as one file at the end.
+ */
+
+import { downloadFile } from './csv';
+
+export interface FileSink {
+  write(chunk: string | Uint8Array<ArrayBuffer> | Blob): Promise<void>;
+  /** Finish the file; the fallback downloads it now */
+  close(): Promise<void>;
+  /** Drop what was written */
+  abort(): Promise<void>;
+}
+
+export interface FileSinkOptions {
+  filename: string;
+  /** MIME type, e.g. 'text/csv' */
+  type: string;
+  /** Shown in the save dialog, e.g. 'CSV file' */
+  description: string;
+  /** File extension including the dot, e.g. '.csv' */
+  extension: string;
+}
+
+// showSaveFilePicker isn't in TypeScript's DOM types yet
+type ShowSaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+const getShowSaveFilePicker = (): ShowSaveFilePicker | undefined =>
+  (window as unknown as { showSaveFilePicker?: ShowSaveFilePicker }).showSaveFilePicker;
+
+/** Pieces kept as Blob parts and downloaded on close */
+const createBlobSink = ({ filename, type }: FileSinkOptions): FileSink => {
+  let parts: Blob[] = [];
+  return {
+    async write(chunk) {
+      parts.push(new Blob([chunk]));
+    },
+    async close() {
+      downloadFile(new Blob(parts, { type }), filename, type);
+      parts = [];
+    },
+    async abort() {
+      parts = [];
+    },
+  };
+};
+
+/**
+ * Open a file to write an export into. Must be called straight from a click,
+ * before anything is awaited, or the browser won't show the save dialog.
+ * @param options - File name and type
+ * @returns The sink, or null when the user cancelled the save dialog
+ */
+export const openFileSink = async (options: FileSinkOptions): Promise<FileSink | null> => {
+  const showSaveFilePicker = getShowSaveFilePicker();
+  if (!showSaveFilePicker) return createBlobSink(options);
+
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await showSaveFilePicker({
+      suggestedName: options.filename,
+      types: [{ description: options.description, accept: { [options.type]: [options.extension] } }],
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    // Not allowed here (e.g. inside a cross-origin frame); download instead
+    console.warn('Save dialog unavailable, falling back to a download:', error);
+    return createBlobSink(options);
+  }
+
+  const writable = await handle.createWritable();
+  return {
+    async write(chunk) {
+      await writable.write(chunk);
+    },
+    async close() {
+      await writable.close();
+    },
+    async abort() {
+      await writable.abort();
+    },
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * Printable reports, saved as PDF through the browser's print dialog.
+ *
+ * The report is written into a window of its own as plain HTML, so it prints
+ * without the dashboard's navigation and no PDF library is bundled.
+ */
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+}
+
+export interface ReportBar {
+  label: string;
+  value: number;
+  /** CSS color of the bar */
+  color: string;
+}
+
+export interface PrintReport {
+  title: string;
+  /** Range and filters the report covers */
+  subtitle: string;
+  kpis: ReportKpi[];
+  chartTitle: string;
+  bars: ReportBar[];
+  tableTitle: string;
+  headers: string[];
+  rows: string[][];
+  /** Shown under the table, e.g. when only part of it is printed */
+  tableNote?: string;
+}
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 16px; margin: 28px 0 12px; }
+  .subtitle { color: #6b7280; font-size: 13px; margin-top: 4px; }
+  .kpis { display: grid; grid-template-columns: repeat(auto-fill, minmax(150px, 1fr)); gap: 12px; margin-top: 24px; }
+  .kpi { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .kpi-label { color: #6b7280; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; }
+  .kpi-value { font-size: 20px; font-weight: 700; margin-top: 4px; }
+  .bar-row { display: flex; align-items: center; gap: 8px; font-size: 12px; margin-top: 6px; break-inside: avoid; }
+  .bar-label { width: 140px; flex-shrink: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .bar-track { flex-grow: 1; background: #f3f4f6; border-radius: 4px; height: 14px; }
+  .bar { height: 14px; border-radius: 4px; }
+  .bar-value { width: 110px; flex-shrink: 0; text-align: right; color: #374151; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; }
+  thead { display: table-header-group; }
+  th { text-align: left; background: #f3f4f6; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; }
+  tr { break-inside: avoid; }
+  .note { color: #6b7280; font-size: 12px; margin-top: 8px; }
+  @page { margin: 12mm; }
+  @media print { body { margin: 0; } }
+`;
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Open the window a report will be printed from. Must be called straight from
+ * a click, before anything is awaited, or the browser blocks the pop-up.
+ * @returns The window, or null when pop-ups are blocked
+ */
+export const openPrintWindow = (): Window | null => {
+  const win = window.open('', '_blank');
+  if (!win) return null;
+  win.document.title = 'Preparing report...';
+  win.document.body.textContent = 'Preparing report...';
+  return win;
+};
+
+/**
+ * Write a report into a window from openPrintWindow and open the print dialog
+ * @param win - The report window
+ * @param report - What to print
+ */
+export const printReport = (win: Window, report: PrintReport): void => {
+  const total = report.bars.reduce((sum, bar) => sum + bar.value, 0);
+  const max = Math.max(1, ...report.bars.map(bar => bar.value));
+
+  const kpis = report.kpis
+    .map(kpi => `<div class="kpi"><div class="kpi-label">${escapeHtml(kpi.label)}</div><div class="kpi-value">${escapeHtml(kpi.value)}</div></div>`)
+    .join('');
+  const bars = report.bars
+    .map(bar => {
+      const share = total ? Math.round((bar.value / total) * 100) : 0;
+      return `<div class="bar-row">`
+        + `<span class="bar-label" title="${escapeHtml(bar.label)}">${escapeHtml(bar.label)}</span>`
+        + `<div class="bar-track"><div class="bar" style="width: ${(bar.value / max) * 100}%; background: ${escapeHtml(bar.color)}"></div></div>`
+        + `<span class="bar-value">${bar.value.toLocaleString()} (${share}%)</span>`
+        + `</div>`;
+    })
+    .join('');
+  const headers = report.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+  const rows = report.rows
+    .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('');
+
+  win.document.open();
+  win.document.write(`<!DOCTYPE html><html><head><meta charset="utf-8">`
+    + `<title>${escapeHtml(report.title)}</title><style>${REPORT_STYLES}</style></head><body>`
+    + `<h1>${escapeHtml(report.title)}</h1>`
+    + `<div class="subtitle">${escapeHtml(report.subtitle)}</div>`
+    + `<div class="kpis">${kpis}</div>`
+    + `<h2>${escapeHtml(report.chartTitle)}</h2>${bars || '<p class="note">No data</p>'}`
+    + `<h2>${escapeHtml(report.tableTitle)}</h2>`
+    + `<table><thead><tr>${headers}</tr></thead><tbody>${rows}</tbody></table>`
+    + (report.tableNote ? `<p class="note">${escapeHtml(report.tableNote)}</p>` : '')
+    + `</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,429 @@
+/**
+ * Minimal .xlsx reading and writing.
+ *
+ * An .xlsx file is a zip archive of XML parts. Entries are inflated with the
+ * browser's DecompressionStream and parsed with DOMParser, so no spreadsheet
+ * library is bundled for what is only ever a list of tracking numbers.
+ * Workbooks are written uncompressed, with text, number and date cells only,
+ * straight through to their destination so a large export is never held in memory.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+
+// General purpose flags: bit 3, sizes and CRC follow the data; bit 11, names are UTF-8
+const STREAMED_UTF8_FLAGS = 0x0808;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/** Entries of a zip archive by path, read from its central directory */
+const readZipEntries = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes, plus a comment of up to 64 KiB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This is not an .xlsx file');
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('The .xlsx file is damaged');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.set(decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)), {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/** Text of one zip entry */
+const readZipText = async (bytes: Uint8Array, entry: ZipEntry): Promise<string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const nameLength = view.getUint16(entry.localHeaderOffset + 26, true);
+  const extraLength = view.getUint16(entry.localHeaderOffset + 28, true);
+  const start = entry.localHeaderOffset + 30 + nameLength + extraLength;
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === STORED) return new TextDecoder().decode(data);
+  if (entry.method !== DEFLATED) throw new Error('The .xlsx file uses an unsupported compression method');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+/** Zero-based column of a cell reference such as "C12" */
+const columnIndex = (ref: string): number => {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/** Path of the workbook's first worksheet, e.g. "xl/worksheets/sheet1.xml" */
+const findFirstSheet = async (bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = parseXml(await readZipText(bytes, workbook)).getElementsByTagName('sheet')[0];
+    const relId = sheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(await readZipText(bytes, rels)).getElementsByTagName('Relationship'))
+      .find(rel => rel.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+
+  const fallback = Array.from(entries.keys()).filter(path => /^xl\/worksheets\/sheet\d+\.xml$/.test(path)).sort()[0];
+  if (!fallback) throw new Error('The .xlsx file has no worksheets');
+  return fallback;
+};
+
+/**
+ * Read the first worksheet of an .xlsx file as rows of cell text
+ * @param file - The uploaded file
+ */
+export const readXlsxRows = async (file: Blob): Promise<string[][]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entries = readZipEntries(bytes);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipText(bytes, sharedStringsEntry)).getElementsByTagName('si'))
+      .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const sheetPath = await findFirstSheet(bytes, entries);
+  const sheet = parseXml(await readZipText(bytes, entries.get(sheetPath) as ZipEntry));
+
+  return Array.from(sheet.getElementsByTagName('row')).map(row => {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach(c => {
+      const type = c.getAttribute('t');
+      const value = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      const text = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? Array.from(c.getElementsByTagName('t')).map(t => t.textContent ?? '').join('')
+          : value;
+      const ref = c.getAttribute('r');
+      cells[ref ? columnIndex(ref) : cells.length] = text;
+    });
+    return Array.from(cells, cell => cell ?? '');
+  });
+};
+
+export type XlsxValue = string | number | Date | null | undefined;
+
+export interface XlsxColumn<T> {
+  header: string;
+  value: (row: T) => XlsxValue;
+  /** Format the column as text, so Excel never reads it as a number, e.g. tracking numbers */
+  text?: boolean;
+  /** Width in characters */
+  width?: number;
+}
+
+export interface XlsxSheet<T> {
+  addRows(rows: T[]): Promise<void>;
+}
+
+export interface XlsxWriter {
+  /**
+   * Start a worksheet, finishing the one before it: sheets are written one
+   * after the other, so every row of a sheet goes in before the next is added
+   * @param position - Where its tab appears; after the sheets added so far by default
+   */
+  addSheet<T>(name: string, columns: XlsxColumn<T>[], position?: number): Promise<XlsxSheet<T>>;
+  /** Finish the workbook; nothing is written after this */
+  close(): Promise<void>;
+}
+
+/** Where a workbook's bytes go, in order, e.g. a FileSink's write */
+export type XlsxOutput = (chunk: Uint8Array<ArrayBuffer>) => Promise<void>;
+
+interface ZipWriter {
+  /** Start an entry, ending the one before it */
+  startEntry(path: string): Promise<void>;
+  write(text: string): Promise<void>;
+  /** End the last entry and write the central directory */
+  close(): Promise<void>;
+}
+
+export const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Cell styles, by index into cellXfs in styles.xml below
+const STYLE_HEADER = 1;
+const STYLE_DATETIME = 2;
+const STYLE_TEXT = 3;
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="4">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/** Continue a CRC-32 over more bytes; start from 0 */
+const crc32 = (crc: number, bytes: Uint8Array): number => {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+};
+
+const escapeXml = (value: string): string => value
+  // Control characters aren't allowed in XML at all
+  // eslint-disable-next-line no-control-regex
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/** Column letters of a zero-based column index, e.g. 27 -> "AB" */
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/** Excel's serial day number of a date, in the browser's time zone */
+const excelDate = (date: Date): number =>
+  (date.getTime() - date.getTimezoneOffset() * 60_000) / 86_400_000 + 25569;
+
+const xlsxCell = (ref: string, value: XlsxValue, textStyle: boolean): string => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime())
+      ? `<c r="${ref}"/>`
+      : `<c r="${ref}" s="${STYLE_DATETIME}"><v>${excelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number' && !textStyle) {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : `<c r="${ref}"/>`;
+  }
+  const style = textStyle ? ` s="${STYLE_TEXT}"` : '';
+  if (value === null || value === undefined || value === '') return `<c r="${ref}"${style}/>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+/**
+ * Write a zip archive of uncompressed entries as it goes. Each entry's size and
+ * CRC are only known at its end, so they follow its data in a data descriptor
+ * and are repeated in the central directory. No ZIP64: archives stay under 4 GiB.
+ */
+const createZipWriter = (output: XlsxOutput): ZipWriter => {
+  const encoder = new TextEncoder();
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+  let entry: { name: Uint8Array<ArrayBuffer>; localHeaderOffset: number; size: number; crc: number } | null = null;
+
+  const emit = async (bytes: Uint8Array<ArrayBuffer>) => {
+    await output(bytes);
+    offset += bytes.length;
+  };
+
+  const endEntry = async () => {
+    if (!entry) return;
+    const { name, localHeaderOffset, size, crc } = entry;
+    entry = null;
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, DATA_DESCRIPTOR, true);
+    descriptorView.setUint32(4, crc, true);
+    descriptorView.setUint32(8, size, true);
+    descriptorView.setUint32(12, size, true);
+    await emit(descriptor);
+
+    const header = new Uint8Array(46 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, 20, true);
+    headerView.setUint16(8, STREAMED_UTF8_FLAGS, true);
+    headerView.setUint16(10, STORED, true);
+    headerView.setUint32(16, crc, true);
+    headerView.setUint32(20, size, true);
+    headerView.setUint32(24, size, true);
+    headerView.setUint16(28, name.length, true);
+    headerView.setUint32(42, localHeaderOffset, true);
+    header.set(name, 46);
+    central.push(header);
+  };
+
+  return {
+    async startEntry(path) {
+      await endEntry();
+      const name = encoder.encode(path);
+      entry = { name, localHeaderOffset: offset, size: 0, crc: 0 };
+
+      // CRC and sizes are left at 0 here, see the data descriptor
+      const local = new Uint8Array(30 + name.length);
+      const localView = new DataView(local.buffer);
+      localView.setUint32(0, LOCAL_FILE_HEADER, true);
+      localView.setUint16(4, 20, true);
+      localView.setUint16(6, STREAMED_UTF8_FLAGS, true);
+      localView.setUint16(8, STORED, true);
+      localView.setUint16(26, name.length, true);
+      local.set(name, 30);
+      await emit(local);
+    },
+    async write(text) {
+      if (!entry) throw new Error('No zip entry started');
+      const bytes = encoder.encode(text);
+      entry.size += bytes.length;
+      entry.crc = crc32(entry.crc, bytes);
+      await emit(bytes);
+    },
+    async close() {
+      await endEntry();
+      const centralOffset = offset;
+      for (const header of central) await emit(header);
+
+      const end = new Uint8Array(22);
+      const endView = new DataView(end.buffer);
+      endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+      endView.setUint16(8, central.length, true);
+      endView.setUint16(10, central.length, true);
+      endView.setUint32(12, offset - centralOffset, true);
+      endView.setUint32(16, centralOffset, true);
+      await emit(end);
+    },
+  };
+};
+
+/**
+ * Start writing a workbook. Rows are encoded and written as they are added,
+ * so a large export can go out a page at a time.
+ * @param output - Receives the file's bytes, in order
+ */
+export const createXlsxWriter = (output: XlsxOutput): XlsxWriter => {
+  const zip = createZipWriter(output);
+  // Tab order; each sheet's number is its place in the archive
+  const sheets: { name: string; number: number }[] = [];
+  let sheetOpen = false;
+
+  const endSheet = async () => {
+    if (!sheetOpen) return;
+    sheetOpen = false;
+    await zip.write('</sheetData></worksheet>');
+  };
+
+  return {
+    async addSheet<T>(name: string, columns: XlsxColumn<T>[], position = sheets.length): Promise<XlsxSheet<T>> {
+      await endSheet();
+      const number = sheets.length + 1;
+      // Sheet names are at most 31 characters and can't contain []:*?/\
+      sheets.splice(position, 0, { name: name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31), number });
+
+      const cols = columns
+        .map((column, index) => column.width
+          ? `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`
+          : '')
+        .join('');
+      await zip.startEntry(`xl/worksheets/sheet${number}.xml`);
+      sheetOpen = true;
+      await zip.write('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        // The header row stays in view while scrolling
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + (cols ? `<cols>${cols}</cols>` : '')
+        + '<sheetData>'
+        + `<row r="1">${columns.map((column, index) => `<c r="${columnName(index)}1" s="${STYLE_HEADER}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`).join('')}</row>`);
+
+      let rowCount = 1;
+      return {
+        async addRows(rows: T[]) {
+          // Adding the next sheet ends this one
+          if (!sheetOpen || sheets.length !== number) {
+            throw new Error('Rows can only be added to the last sheet');
+          }
+          let xml = '';
+          rows.forEach(row => {
+            rowCount++;
+            xml += `<row r="${rowCount}">`
+              + columns.map((column, index) => xlsxCell(`${columnName(index)}${rowCount}`, column.value(row), !!column.text)).join('')
+              + '</row>';
+          });
+          if (xml) await zip.write(xml);
+        },
+      };
+    },
+
+    async close() {
+      await endSheet();
+
+      const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + sheets.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.number}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>';
+      const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>';
+      const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets>${sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${sheet.number}"/>`).join('')}</sheets>`
+        + '</workbook>';
+      const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + sheets.map(sheet => `<Relationship Id="rId${sheet.number}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.number}.xml"/>`).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>';
+
+      const parts: [string, string][] = [
+        ['[Content_Types].xml', contentTypes],
+        ['_rels/.rels', rootRels],
+        ['xl/workbook.xml', workbook],
+        ['xl/_rels/workbook.xml.rels', workbookRels],
+        ['xl/styles.xml', STYLES_XML],
+      ];
+      for (const [path, text] of parts) {
+        await zip.startEntry(path);
+        await zip.write(text);
+      }
+      await zip.close();
+    },
+  };
+};